@@ -0,0 +1,137 @@
+/**
+ * Regression check of the face shape classifier against the landmark fixtures:
+ *
+ *   npm run check:face-fixtures
+ *   npm run check:face-fixtures -- --update
+ *   npm run check:face-fixtures -- --record <photo>... [--models <dir>]
+ *
+ * Fails when the shape, the close-call flag or the runner-up of any fixture differs from
+ * what is recorded in `src/data/face-landmark-fixtures.json`. After a deliberate change
+ * to the rules, `--update` records the new results. `--record` adds every face found in
+ * the given photos as new fixtures.
+ */
+import { classifyFaceShape, type FaceClassification, type Point } from '@/lib/face-geometry';
+import { FACE_LANDMARK_FIXTURES, type FaceLandmarkFixture } from '@/lib/face-fixtures';
+import { getFaceShapeRules } from '@/lib/face-shape-rules';
+import { promises as fs } from 'fs';
+import path from 'path';
+import prettier from 'prettier';
+import { parseArgs } from 'util';
+import { createDetector } from './face-detector';
+
+const FIXTURES_FILE = 'src/data/face-landmark-fixtures.json';
+
+type Expectation = Pick<FaceLandmarkFixture, 'faceShape' | 'uncertain' | 'runnerUp'>;
+
+function toExpectation({ faceShape, uncertain, runnerUp }: FaceClassification): Expectation {
+  // The runner-up is only worth pinning for close calls
+  return uncertain ? { faceShape, uncertain, runnerUp } : { faceShape, uncertain };
+}
+
+function classify(landmarks: Point[], name: string) {
+  const classification = classifyFaceShape(landmarks, getFaceShapeRules());
+  if (!classification) throw new Error(`Fixture ${name} could not be measured`);
+  return toExpectation(classification);
+}
+
+function describe({ faceShape, uncertain, runnerUp }: Expectation) {
+  return uncertain ? `${faceShape}, close to ${runnerUp}` : faceShape;
+}
+
+async function writeFixtures(fixtures: FaceLandmarkFixture[]) {
+  const config = await prettier.resolveConfig(FIXTURES_FILE);
+  const contents = await prettier.format(JSON.stringify(fixtures), {
+    ...config,
+    filepath: FIXTURES_FILE,
+  });
+  await fs.writeFile(FIXTURES_FILE, contents);
+}
+
+async function recordFixtures(photos: string[], modelDir?: string) {
+  const detect = await createDetector(modelDir);
+  const recorded: FaceLandmarkFixture[] = [];
+
+  for (const photo of photos) {
+    const faces = await detect(photo);
+    if (faces.length === 0) console.warn(`No face found in ${photo}`);
+
+    faces.forEach((face, index) => {
+      const name = `${path.parse(photo).name}-face-${index + 1}`;
+      // One decimal is well within the precision of the landmark model
+      const landmarks = face.map(({ x, y }) => ({
+        x: Math.round(x * 10) / 10,
+        y: Math.round(y * 10) / 10,
+      }));
+      recorded.push({
+        name,
+        source: 'recorded',
+        photo: path.basename(photo),
+        ...classify(landmarks, name),
+        landmarks,
+      });
+    });
+  }
+
+  return recorded;
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      update: { type: 'boolean', default: false },
+      record: { type: 'boolean', default: false },
+      models: { type: 'string' },
+    },
+  });
+
+  if (values.record) {
+    if (positionals.length === 0) throw new Error('--record needs at least one photo');
+
+    const recorded = await recordFixtures(positionals, values.models);
+    const names = new Set(FACE_LANDMARK_FIXTURES.map(fixture => fixture.name));
+    const duplicate = recorded.find(fixture => names.has(fixture.name));
+    if (duplicate) throw new Error(`There already is a fixture named ${duplicate.name}`);
+
+    await writeFixtures([...FACE_LANDMARK_FIXTURES, ...recorded]);
+    console.log(`Recorded ${recorded.length} faces in ${FIXTURES_FILE}`);
+    return;
+  }
+
+  const changed = FACE_LANDMARK_FIXTURES.flatMap(fixture => {
+    const actual = classify(fixture.landmarks, fixture.name);
+    return describe(fixture) === describe(actual) ? [] : [{ fixture, actual }];
+  });
+
+  if (values.update) {
+    await writeFixtures(
+      FACE_LANDMARK_FIXTURES.map(fixture => ({
+        name: fixture.name,
+        source: fixture.source,
+        photo: fixture.photo,
+        ...classify(fixture.landmarks, fixture.name),
+        landmarks: fixture.landmarks,
+      }))
+    );
+    console.log(`Updated ${changed.length} of ${FACE_LANDMARK_FIXTURES.length} fixtures`);
+    return;
+  }
+
+  for (const { fixture, actual } of changed) {
+    console.error(`${fixture.name}: expected ${describe(fixture)}, got ${describe(actual)}`);
+  }
+  if (changed.length > 0) {
+    throw new Error(
+      `${changed.length} of ${FACE_LANDMARK_FIXTURES.length} fixtures changed. ` +
+        'If the rules changed on purpose, run with --update and review the diff.'
+    );
+  }
+  console.log(
+    `All ${FACE_LANDMARK_FIXTURES.length} fixtures match (ruleset ${getFaceShapeRules().version})`
+  );
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
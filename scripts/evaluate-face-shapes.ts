@@ -0,0 +1,161 @@
+/**
+ * Offline evaluation of the face shape classifier:
+ *
+ *   npm run evaluate:faces -- [input] [--rules <file>] [--baseline <run.json>] [--out <run.json>]
+ *     [--models <dir>]
+ *
+ * `input` is a directory with a subdirectory per face shape (`oval/`, `round/`, ...)
+ * holding photos (.jpg, .jpeg, .png, .webp) and landmark files (.json, either a list of
+ * the 68 points or an object with `landmarks`), by default `src/data/face-shape-samples`,
+ * or a JSON list of labeled landmarks like `src/data/face-landmark-fixtures.json`. Photos
+ * go through the same face-api.js models as the app, from `public/models` or `--models`.
+ *
+ * `--rules` evaluates a candidate ruleset instead of `src/data/face-shape-rules.json`,
+ * `--out` saves the run and `--baseline` reports what changed since a saved run.
+ */
+import { FaceShape, LANDMARK_COUNT, type Point } from '@/lib/face-geometry';
+import {
+  diffEvaluations,
+  type Evaluation,
+  evaluateFaceShapes,
+  formatEvaluation,
+  formatEvaluationDiff,
+  type LabeledFace,
+} from '@/lib/face-shape-evaluation';
+import {
+  type FaceShapeRules,
+  getFaceShapeRules,
+  parseFaceShapeRules,
+} from '@/lib/face-shape-rules';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { createDetector, type DetectFaces, IMAGE_EXTENSIONS } from './face-detector';
+
+const DEFAULT_INPUT = 'src/data/face-shape-samples';
+const FACE_SHAPES = Object.values(FaceShape);
+
+async function readJson(file: string): Promise<unknown> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read ${file}: ${(error as Error).message}`);
+  }
+}
+
+function isFaceShape(value: unknown): value is FaceShape {
+  return FACE_SHAPES.includes(value as FaceShape);
+}
+
+function toLandmarks(value: unknown, source: string): Point[] {
+  const points = Array.isArray(value) ? value : (value as { landmarks?: unknown })?.landmarks;
+  if (
+    !Array.isArray(points) ||
+    points.length !== LANDMARK_COUNT ||
+    !points.every(point => Number.isFinite(point?.x) && Number.isFinite(point?.y))
+  ) {
+    throw new Error(`${source} must hold ${LANDMARK_COUNT} landmarks with x and y`);
+  }
+  return points.map(({ x, y }) => ({ x, y }));
+}
+
+async function readLabeledList(file: string): Promise<LabeledFace[]> {
+  const entries = await readJson(file);
+  if (!Array.isArray(entries)) {
+    throw new Error(`${file} must be a list of labeled faces`);
+  }
+
+  return entries.map((entry, index) => {
+    const source = `${file} entry ${entry?.name ?? index}`;
+    if (!isFaceShape(entry?.faceShape)) {
+      throw new Error(`${source} needs a "faceShape" of ${FACE_SHAPES.join(', ')}`);
+    }
+    return {
+      name: typeof entry.name === 'string' ? entry.name : String(index),
+      faceShape: entry.faceShape,
+      landmarks: toLandmarks(entry, source),
+    };
+  });
+}
+
+async function readLabeledDirectory(dir: string, modelDir?: string): Promise<LabeledFace[]> {
+  const faces: LabeledFace[] = [];
+  let detect: Promise<DetectFaces> | null = null;
+
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) {
+      console.warn(`Skipping ${path.join(dir, entry.name)}: not in a face shape directory`);
+      continue;
+    }
+    if (!isFaceShape(entry.name)) {
+      throw new Error(`${path.join(dir, entry.name)} is not named after a face shape`);
+    }
+
+    const shapeDir = path.join(dir, entry.name);
+    for (const file of (await fs.readdir(shapeDir)).sort()) {
+      const extension = path.extname(file).toLowerCase();
+      const filePath = path.join(shapeDir, file);
+      const name = `${entry.name}/${file}`;
+
+      if (extension === '.json') {
+        faces.push({
+          name,
+          faceShape: entry.name,
+          landmarks: toLandmarks(await readJson(filePath), filePath),
+        });
+      } else if (IMAGE_EXTENSIONS.includes(extension)) {
+        detect ??= createDetector(modelDir);
+        // The largest face, the one the app picks by default
+        const [landmarks = null] = await (await detect)(filePath);
+        faces.push({ name, faceShape: entry.name, landmarks });
+      } else {
+        console.warn(`Skipping ${filePath}: neither a photo nor a landmark file`);
+      }
+    }
+  }
+
+  return faces;
+}
+
+async function readLabeledFaces(input: string, modelDir?: string) {
+  const stats = await fs.stat(input).catch(() => null);
+  if (!stats) throw new Error(`${input} does not exist`);
+  return stats.isDirectory() ? readLabeledDirectory(input, modelDir) : readLabeledList(input);
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      rules: { type: 'string' },
+      baseline: { type: 'string' },
+      out: { type: 'string' },
+      models: { type: 'string' },
+    },
+  });
+
+  const rules: FaceShapeRules = values.rules
+    ? parseFaceShapeRules(await readJson(values.rules))
+    : getFaceShapeRules();
+  const faces = await readLabeledFaces(positionals[0] ?? DEFAULT_INPUT, values.models);
+  if (faces.length === 0) {
+    throw new Error('No labeled faces found');
+  }
+
+  const evaluation = evaluateFaceShapes(faces, rules);
+  console.log(formatEvaluation(evaluation));
+
+  if (values.baseline) {
+    const baseline = (await readJson(values.baseline)) as Evaluation;
+    console.log(`\n${formatEvaluationDiff(diffEvaluations(baseline, evaluation))}`);
+  }
+  if (values.out) {
+    await fs.writeFile(values.out, `${JSON.stringify(evaluation, null, 2)}\n`);
+    console.log(`\nSaved this run to ${values.out}`);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,91 @@
+/**
+ * Face landmark detection for the scripts, with the same face-api.js models as the app
+ */
+import type { Point } from '@/lib/face-geometry';
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+
+export const DEFAULT_MODEL_DIR = 'public/models';
+export const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+
+// Weight manifests of the models in use; each names the weight files it needs
+const MODEL_MANIFESTS = [
+  'ssd_mobilenetv1_model-weights_manifest.json',
+  'face_landmark_68_model-weights_manifest.json',
+];
+
+/**
+ * Landmarks of every face in a photo, largest face first as in the app
+ */
+export type DetectFaces = (file: string) => Promise<Point[][]>;
+
+async function exists(file: string) {
+  return fs.access(file).then(
+    () => true,
+    () => false
+  );
+}
+
+/**
+ * Model files that are missing from `modelDir`: manifests, and the weight files the
+ * manifests that are there refer to
+ */
+async function findMissingModelFiles(modelDir: string) {
+  const missing: string[] = [];
+
+  for (const manifest of MODEL_MANIFESTS) {
+    const manifestPath = path.join(modelDir, manifest);
+    if (!(await exists(manifestPath))) {
+      missing.push(manifest);
+      continue;
+    }
+
+    const groups = JSON.parse(await fs.readFile(manifestPath, 'utf8')) as { paths: string[] }[];
+    for (const weightFile of groups.flatMap(group => group.paths)) {
+      if (!(await exists(path.join(modelDir, weightFile)))) missing.push(weightFile);
+    }
+  }
+
+  return missing;
+}
+
+function boxArea({ width, height }: { width: number; height: number }) {
+  return width * height;
+}
+
+/**
+ * Load the models from `modelDir`, failing up front with the files that are missing
+ */
+export async function createDetector(modelDir = DEFAULT_MODEL_DIR): Promise<DetectFaces> {
+  const missing = await findMissingModelFiles(modelDir);
+  if (missing.length > 0) {
+    throw new Error(
+      `Face models are missing from ${modelDir}: ${missing.join(', ')}. ` +
+        'Run `node download-models.js`, or pass --models with a directory that holds them.'
+    );
+  }
+
+  const faceapi = await import('face-api.js');
+  const modelPath = path.resolve(modelDir);
+  await faceapi.nets.ssdMobilenetv1.loadFromDisk(modelPath);
+  await faceapi.nets.faceLandmark68Net.loadFromDisk(modelPath);
+  const options = new faceapi.SsdMobilenetv1Options({ minConfidence: 0.5 });
+
+  return async file => {
+    const { data, info } = await sharp(file)
+      .rotate()
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const image = faceapi.tf.tensor3d(data, [info.height, info.width, 3], 'int32');
+    try {
+      const detections = await faceapi.detectAllFaces(image, options).withFaceLandmarks();
+      return detections
+        .sort((a, b) => boxArea(b.detection.box) - boxArea(a.detection.box))
+        .map(detection => detection.landmarks.positions.map(({ x, y }) => ({ x, y })));
+    } finally {
+      image.dispose();
+    }
+  };
+}
@@ -0,0 +1,19 @@
+// Runs a TypeScript script in Node, resolving the `@/` imports of the app:
+//   node scripts/run.mjs scripts/<name>.ts [args]
+import { createJiti } from 'jiti';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const [script, ...args] = process.argv.slice(2);
+if (!script) {
+  console.error('Usage: node scripts/run.mjs <script.ts> [args]');
+  process.exit(1);
+}
+// Leave the script's own arguments where `parseArgs` looks for them
+process.argv.splice(2, process.argv.length, ...args);
+
+const jiti = createJiti(import.meta.url, {
+  alias: { '@': fileURLToPath(new URL('../src', import.meta.url)) },
+});
+
+await jiti.import(path.resolve(script));
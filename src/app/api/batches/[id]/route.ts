@@ -0,0 +1,33 @@
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { canAccess, type Principal } from '@/lib/auth';
+import { getBatchStore } from '@/lib/batch-store';
+import { ErrorCode } from '@/lib/error-codes';
+import { withApiAuth } from '@/middleware/api-auth';
+import { NextRequest, NextResponse } from 'next/server';
+
+async function getBatchHandler(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+  principal: Principal
+) {
+  try {
+    const { id } = await params;
+    const batch = await getBatchStore().get(id);
+
+    if (!batch || !canAccess(principal, batch.owner)) {
+      throw new ApiError(404, ErrorCode.BATCH_NOT_FOUND, 'Batch not found.');
+    }
+
+    return NextResponse.json(batch);
+  } catch (error) {
+    console.error('Error fetching batch:', error);
+    return errorResponse(error);
+  }
+}
+
+type NextRouteHandler = (
+  request: NextRequest,
+  context: { params: { id: string } }
+) => Promise<NextResponse>;
+
+export const GET: NextRouteHandler = withApiAuth(getBatchHandler, 'tasks:read');
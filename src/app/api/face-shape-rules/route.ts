@@ -0,0 +1,23 @@
+import { errorResponse } from '@/lib/api-errors';
+import { selectFaceShapeRuleset } from '@/lib/face-shape-rulesets';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * The face shape ruleset for a visitor: `?variant=` asks for one by name, otherwise the
+ * visitor's `?key=` decides which variant of the configured split they get
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const ruleset = await selectFaceShapeRuleset({
+      key: searchParams.get('key') || null,
+      variant: searchParams.get('variant') || null,
+    });
+
+    // The answer depends on the key, so only the visitor's browser may keep it
+    return NextResponse.json(ruleset, { headers: { 'Cache-Control': 'private, max-age=300' } });
+  } catch (error) {
+    console.error('Error selecting face shape rules:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,59 @@
+import { GENERATION_MODEL, OUTPUT_RATIO } from '@/constants';
+import { errorResponse } from '@/lib/api-errors';
+import type { Principal } from '@/lib/auth';
+import { startBatch } from '@/lib/batch-runner';
+import { MAX_GENERATE_BODY_BYTES, parseBatchGenerateRequest } from '@/lib/generate-request';
+import { prepareSelfie } from '@/lib/generation-input';
+import { startIdempotentRequest, type IdempotentRequest } from '@/lib/idempotency';
+import { getGenerationProvider } from '@/lib/providers';
+import { chargeQuota } from '@/lib/rate-limit';
+import { readJsonBody } from '@/lib/request-body';
+import { assertBudgetAvailable, estimateCredits } from '@/lib/usage';
+import { withApiAuth } from '@/middleware/api-auth';
+import { withRateLimit } from '@/middleware/rate-limit';
+import { NextRequest } from 'next/server';
+
+/**
+ * Try one selfie with several hairstyles. The batch is accepted right away and
+ * worked through in the background; poll `GET /api/batches/{id}` for its progress.
+ */
+async function generateBatchHandler(req: NextRequest, _: unknown, principal: Principal) {
+  let idempotency: IdempotentRequest | undefined;
+
+  try {
+    const body = await readJsonBody(req, MAX_GENERATE_BODY_BYTES);
+
+    idempotency = await startIdempotentRequest(req, principal, body);
+    if (idempotency.replay) return idempotency.replay;
+
+    const { userImage, hairstyles, prompt, faceAnalysis } = await parseBatchGenerateRequest(body);
+
+    const provider = getGenerationProvider();
+    const selfie = await prepareSelfie(userImage);
+
+    // Every hairstyle in the batch counts as one generation
+    await assertBudgetAvailable(
+      estimateCredits(GENERATION_MODEL, OUTPUT_RATIO) * hairstyles.length
+    );
+    const refundQuota = await chargeQuota(req, principal, hairstyles.length);
+    const batch = await startBatch(provider, {
+      selfie,
+      hairstyles,
+      prompt,
+      faceAnalysis,
+      owner: principal.id,
+      refundQuota,
+    }).catch(async error => {
+      await refundQuota();
+      throw error;
+    });
+
+    return await idempotency.respond(batch, 202);
+  } catch (error) {
+    await idempotency?.release();
+    console.error('Error starting batch:', error);
+    return errorResponse(error);
+  }
+}
+
+export const POST = withApiAuth(withRateLimit(generateBatchHandler, 'generate'), 'generate');
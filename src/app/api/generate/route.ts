@@ -1,45 +1,70 @@
-import { OUTPUT_RATIO } from '@/constants';
-import { runwayApiRequest } from '@/lib/runway-api';
+import { errorResponse } from '@/lib/api-errors';
+import type { Principal } from '@/lib/auth';
+import { MAX_GENERATE_BODY_BYTES, parseGenerateRequest } from '@/lib/generate-request';
+import { buildTaskInput, prepareSelfie } from '@/lib/generation-input';
+import { startIdempotentRequest, type IdempotentRequest } from '@/lib/idempotency';
+import { getGenerationProvider } from '@/lib/providers';
+import { chargeQuota } from '@/lib/rate-limit';
+import { readJsonBody } from '@/lib/request-body';
+import { findCachedResult } from '@/lib/result-cache';
+import { hashInputs, recordCachedTask, recordCreatedTask } from '@/lib/task-records';
+import { createMeteredTask } from '@/lib/usage';
 import { withApiAuth } from '@/middleware/api-auth';
-import { NextRequest, NextResponse } from 'next/server';
+import { withRateLimit } from '@/middleware/rate-limit';
+import { NextRequest } from 'next/server';
 
-const DEFAULT_PROMPT = 'IMG_1 with IMG_2 hair style';
+async function generateHandler(req: NextRequest, _: unknown, principal: Principal) {
+  let idempotency: IdempotentRequest | undefined;
 
-async function generateHandler(req: NextRequest, _: unknown, apiKey: string) {
   try {
-    const { userImage, hairstyleImage, prompt } = await req.json();
+    const body = await readJsonBody(req, MAX_GENERATE_BODY_BYTES);
 
-    const promptText = prompt || DEFAULT_PROMPT;
+    // A retried request gets the task created the first time instead of a new one
+    idempotency = await startIdempotentRequest(req, principal, body);
+    if (idempotency.replay) return idempotency.replay;
 
-    if (!promptText || !userImage || !hairstyleImage) {
-      return NextResponse.json(
-        { error: 'Missing required fields: prompt, userImage, or hairstyleImage' },
-        { status: 400 }
-      );
+    const { userImage, hairstyle, prompt, fresh, faceAnalysis } = await parseGenerateRequest(body);
+
+    const selfie = await prepareSelfie(userImage);
+    const input = await buildTaskInput(selfie, hairstyle, prompt);
+    const context = {
+      hairstyle: hairstyle.id,
+      inputImage: selfie.inputImage,
+      faceAnalysis: faceAnalysis ?? undefined,
+      owner: principal.id,
+    };
+
+    // The same selfie and hairstyle again: hand back the earlier result unless asked for a new one
+    const cached = fresh
+      ? null
+      : await findCachedResult({
+          model: input.model,
+          ratio: input.ratio,
+          inputsHash: hashInputs(input),
+        });
+    if (cached) {
+      const task = await recordCachedTask(cached, input, context);
+      return await idempotency.respond({ ...task, cachedFrom: cached.taskId });
     }
 
-    const data = await runwayApiRequest('/v1/text_to_image', apiKey, {
-      method: 'POST',
-      body: {
-        promptText,
-        ratio: OUTPUT_RATIO,
-        model: 'gen4_image',
-        referenceImages: [
-          {
-            uri: userImage,
-          },
-          {
-            uri: hairstyleImage,
-          },
-        ],
-      },
+    // Resolve the configured provider, which checks its credentials (e.g. RUNWAY_API_KEY)
+    const provider = getGenerationProvider();
+    const refundQuota = await chargeQuota(req, principal, 1);
+    const data = await createMeteredTask(provider, input, {
+      caller: principal.id,
+      hairstyle: hairstyle.id,
+    }).catch(async error => {
+      await refundQuota();
+      throw error;
     });
+    await recordCreatedTask(data.id, provider.name, input, context);
 
-    return NextResponse.json(data);
+    return await idempotency.respond(data);
   } catch (error) {
+    await idempotency?.release();
     console.error('Error generating image:', error);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    return errorResponse(error);
   }
 }
 
-export const POST = withApiAuth(generateHandler);
+export const POST = withApiAuth(withRateLimit(generateHandler, 'generate'), 'generate');
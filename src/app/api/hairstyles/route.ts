@@ -0,0 +1,10 @@
+import { getHairstyles } from '@/lib/hairstyle-catalog';
+import { NextResponse } from 'next/server';
+
+export async function GET() {
+  // The catalog only changes on deploy, so let browsers and CDNs keep it for a while
+  return NextResponse.json(
+    { hairstyles: getHairstyles() },
+    { headers: { 'Cache-Control': 'public, max-age=300, stale-while-revalidate=3600' } }
+  );
+}
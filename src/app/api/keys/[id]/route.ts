@@ -0,0 +1,37 @@
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { getApiKeyStore } from '@/lib/api-key-store';
+import { toPublicApiKey } from '@/lib/api-keys';
+import { ErrorCode } from '@/lib/error-codes';
+import { withApiAuth } from '@/middleware/api-auth';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Revoke a client key. Requests using it are rejected from then on.
+ */
+async function revokeKeyHandler(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { id } = await params;
+    const store = getApiKeyStore();
+    const existing = await store.get(id);
+
+    if (!existing) {
+      throw new ApiError(404, ErrorCode.API_KEY_NOT_FOUND, 'API key not found.');
+    }
+
+    const revoked = existing.revokedAt
+      ? existing
+      : await store.update(id, { revokedAt: new Date().toISOString() });
+
+    return NextResponse.json({ apiKey: toPublicApiKey(revoked ?? existing) });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    return errorResponse(error);
+  }
+}
+
+type NextRouteHandler = (
+  request: NextRequest,
+  context: { params: { id: string } }
+) => Promise<NextResponse>;
+
+export const DELETE: NextRouteHandler = withApiAuth(revokeKeyHandler, 'admin');
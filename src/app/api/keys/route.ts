@@ -0,0 +1,65 @@
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { getApiKeyStore } from '@/lib/api-key-store';
+import { issueApiKey, toPublicApiKey } from '@/lib/api-keys';
+import { ErrorCode } from '@/lib/error-codes';
+import { readJsonBody } from '@/lib/request-body';
+import { isScope, SCOPES, type Scope } from '@/lib/scopes';
+import { withApiAuth } from '@/middleware/api-auth';
+import { NextRequest, NextResponse } from 'next/server';
+
+const MAX_BODY_BYTES = 16 * 1024;
+const MAX_NAME_LENGTH = 100;
+
+function invalid(field: string, message: string) {
+  return new ApiError(400, ErrorCode.INVALID_REQUEST, message, { field });
+}
+
+function parseCreateKeyRequest(body: unknown): { name: string; scopes: Scope[] } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ApiError(400, ErrorCode.INVALID_REQUEST, 'Request body must be a JSON object');
+  }
+  const { name, scopes } = body as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH) {
+    throw invalid(
+      'name',
+      `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters`
+    );
+  }
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isScope)) {
+    throw invalid('scopes', `scopes must be a non-empty list of: ${SCOPES.join(', ')}`);
+  }
+
+  return { name: name.trim(), scopes: Array.from(new Set(scopes)) };
+}
+
+/**
+ * List issued client keys, without their secrets
+ */
+async function listKeysHandler() {
+  try {
+    const keys = await getApiKeyStore().list();
+    return NextResponse.json({ keys: keys.map(toPublicApiKey) });
+  } catch (error) {
+    console.error('Error listing API keys:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Issue a client key. The response is the only time the key itself is shown.
+ */
+async function createKeyHandler(req: NextRequest) {
+  try {
+    const { name, scopes } = parseCreateKeyRequest(await readJsonBody(req, MAX_BODY_BYTES));
+    const { key, apiKey } = await issueApiKey(name, scopes);
+
+    return NextResponse.json({ key, apiKey }, { status: 201 });
+  } catch (error) {
+    console.error('Error issuing API key:', error);
+    return errorResponse(error);
+  }
+}
+
+export const GET = withApiAuth(listKeysHandler, 'admin');
+export const POST = withApiAuth(createKeyHandler, 'admin');
@@ -0,0 +1,45 @@
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { ErrorCode } from '@/lib/error-codes';
+import { readResult } from '@/lib/result-images';
+import { NextRequest, NextResponse } from 'next/server';
+
+const RESULT_HEADERS = {
+  // The ID is a hash of the content, so a result never changes
+  'Cache-Control': 'public, max-age=31536000, immutable',
+  'X-Content-Type-Options': 'nosniff',
+  // Nothing in an image should run as a page of this app, SVG included
+  'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+};
+
+/**
+ * Serve a stored generation result. Results are public: their IDs are content
+ * hashes that can only be learned from a task's output, so they can be shared and
+ * embedded without credentials.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const etag = `"${id.split('.')[0]}"`;
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers: { ...RESULT_HEADERS, ETag: etag } });
+    }
+
+    const result = await readResult(id);
+    if (!result) {
+      throw new ApiError(404, ErrorCode.RESULT_NOT_FOUND, 'Result not found.');
+    }
+
+    return new NextResponse(new Uint8Array(result.data), {
+      headers: {
+        ...RESULT_HEADERS,
+        'Content-Type': result.contentType,
+        'Content-Length': String(result.data.length),
+        ETag: etag,
+      },
+    });
+  } catch (error) {
+    console.error('Error serving result:', error);
+    return errorResponse(error);
+  }
+}
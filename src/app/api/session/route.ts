@@ -0,0 +1,54 @@
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { ErrorCode } from '@/lib/error-codes';
+import {
+  anonymousSessionsEnabled,
+  createSession,
+  decodeSession,
+  encodeSession,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+} from '@/lib/session';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Start or renew the anonymous session the demo app authenticates with.
+ * Only available with `ANONYMOUS_SESSIONS=true`; otherwise API keys are the only way in.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!anonymousSessionsEnabled()) {
+      throw new ApiError(403, ErrorCode.FORBIDDEN, 'Anonymous sessions are not enabled');
+    }
+
+    const cookie = req.cookies.get(SESSION_COOKIE)?.value;
+    const existing = cookie ? decodeSession(cookie) : null;
+    // Keep the same identity on renewal so earlier tasks stay visible
+    const session = createSession(existing?.id);
+
+    const response = NextResponse.json({
+      scopes: session.scopes,
+      expiresAt: new Date(session.expiresAt * 1000).toISOString(),
+    });
+    response.cookies.set(SESSION_COOKIE, encodeSession(session), {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: SESSION_TTL_SECONDS,
+    });
+
+    return response;
+  } catch (error) {
+    console.error('Error starting session:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * End the current session
+ */
+export async function DELETE() {
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,31 @@
+import { errorResponse } from '@/lib/api-errors';
+import type { Principal } from '@/lib/auth';
+import { revokeShare, toPublicShare } from '@/lib/shares';
+import { withApiAuth } from '@/middleware/api-auth';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Revoke one of the caller's shares, taking its page down
+ */
+async function revokeShareHandler(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+  principal: Principal
+) {
+  try {
+    const { id } = await params;
+    const share = await revokeShare(principal, id);
+
+    return NextResponse.json({ share: toPublicShare(share) });
+  } catch (error) {
+    console.error('Error revoking share:', error);
+    return errorResponse(error);
+  }
+}
+
+type NextRouteHandler = (
+  request: NextRequest,
+  context: { params: { id: string } }
+) => Promise<NextResponse>;
+
+export const DELETE: NextRouteHandler = withApiAuth(revokeShareHandler, 'shares');
@@ -0,0 +1,25 @@
+import { errorResponse } from '@/lib/api-errors';
+import type { Principal } from '@/lib/auth';
+import { readJsonBody } from '@/lib/request-body';
+import { createShare, parseShareRequest, toPublicShare } from '@/lib/shares';
+import { withApiAuth } from '@/middleware/api-auth';
+import { NextRequest, NextResponse } from 'next/server';
+
+const MAX_BODY_BYTES = 16 * 1024;
+
+/**
+ * Create a public `/r/[shareId]` page for one of the caller's succeeded tasks
+ */
+async function createShareHandler(req: NextRequest, _: unknown, principal: Principal) {
+  try {
+    const request = parseShareRequest(await readJsonBody(req, MAX_BODY_BYTES));
+    const share = await createShare(principal, request);
+
+    return NextResponse.json({ share: toPublicShare(share) }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating share:', error);
+    return errorResponse(error);
+  }
+}
+
+export const POST = withApiAuth(createShareHandler, 'shares');
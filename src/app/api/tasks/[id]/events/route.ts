@@ -0,0 +1,103 @@
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import type { Principal } from '@/lib/auth';
+import { ErrorCode } from '@/lib/error-codes';
+import { getGenerationProvider } from '@/lib/providers';
+import { assertTaskAccess, toCachedTask } from '@/lib/task-records';
+import { watchTask, type TaskEvent } from '@/lib/task-watcher';
+import { withApiAuth } from '@/middleware/api-auth';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Comment lines keep proxies from closing idle connections
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export const dynamic = 'force-dynamic';
+
+const EVENT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no',
+};
+
+function formatEvent({ type, data }: TaskEvent) {
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Stream task progress as Server-Sent Events.
+ * Emits `status` on every status/progress change, `output` when the task
+ * succeeds and `api_error` when polling fails, then closes on terminal states.
+ */
+async function taskEventsHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  principal: Principal
+) {
+  try {
+    const { id: taskId } = await params;
+
+    if (!taskId) {
+      throw new ApiError(400, ErrorCode.INVALID_REQUEST, 'Task ID is required');
+    }
+    const record = await assertTaskAccess(principal, taskId);
+
+    // A cached result is already final: send it and end the stream
+    if (record?.cachedFrom) {
+      const { output = [], ...task } = toCachedTask(record);
+      const events: TaskEvent[] = [
+        { type: 'status', data: task },
+        { type: 'output', data: { output } },
+      ];
+      return new NextResponse(events.map(formatEvent).join(''), {
+        headers: EVENT_STREAM_HEADERS,
+      });
+    }
+
+    const provider = getGenerationProvider();
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+
+        const write = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk));
+        };
+
+        const heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+        const unsubscribe = watchTask(taskId, provider, {
+          send: event => write(formatEvent(event)),
+          close: () => {
+            cleanup();
+            if (!closed) {
+              closed = true;
+              controller.close();
+            }
+          },
+        });
+
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+        };
+
+        request.signal.addEventListener('abort', () => {
+          closed = true;
+          cleanup();
+        });
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new NextResponse(stream, { headers: EVENT_STREAM_HEADERS });
+  } catch (error) {
+    console.error('Error streaming task events:', error);
+    return errorResponse(error);
+  }
+}
+
+export const GET = withApiAuth(taskEventsHandler, 'tasks:read');
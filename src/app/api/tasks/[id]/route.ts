@@ -1,69 +1,69 @@
-import { runwayApiRequest } from '@/lib/runway-api';
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import type { Principal } from '@/lib/auth';
+import { ErrorCode } from '@/lib/error-codes';
+import { getGenerationProvider } from '@/lib/providers';
+import {
+  assertTaskAccess,
+  markTaskCancelled,
+  syncTaskRecord,
+  toCachedTask,
+} from '@/lib/task-records';
 import { withApiAuth } from '@/middleware/api-auth';
 import { NextRequest, NextResponse } from 'next/server';
 
 async function getTaskHandler(
   request: NextRequest,
   { params }: { params: { id: string } },
-  apiKey: string
+  principal: Principal
 ) {
   try {
     const { id: taskId } = await params;
 
     if (!taskId) {
-      return NextResponse.json({ error: 'Task ID is required' }, { status: 400 });
+      throw new ApiError(400, ErrorCode.INVALID_REQUEST, 'Task ID is required');
     }
+    const record = await assertTaskAccess(principal, taskId);
+
+    // Cached results never reached the provider
+    if (record?.cachedFrom) {
+      return NextResponse.json(toCachedTask(record));
+    }
+
+    // Succeeded tasks come back with the URLs of our own copies of their outputs
+    const data = await syncTaskRecord(await getGenerationProvider().getTask(taskId));
 
-    const data = await runwayApiRequest(`/v1/tasks/${taskId}`, apiKey);
     return NextResponse.json(data);
   } catch (error) {
     console.error('Error fetching task status:', error);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    return errorResponse(error);
   }
 }
 
 async function cancelTaskHandler(
   request: NextRequest,
   { params }: { params: { id: string } },
-  apiKey: string
+  principal: Principal
 ) {
   try {
     const { id: taskId } = await params;
 
     if (!taskId) {
-      return NextResponse.json({ error: 'Task ID is required' }, { status: 400 });
+      throw new ApiError(400, ErrorCode.INVALID_REQUEST, 'Task ID is required');
     }
+    const record = await assertTaskAccess(principal, taskId);
 
-    const data = await runwayApiRequest(`/v1/tasks/${taskId}`, apiKey, {
-      method: 'DELETE',
-    });
+    // Nothing to cancel: a cached result is finished from the start
+    if (record?.cachedFrom) {
+      return NextResponse.json({});
+    }
 
-    return NextResponse.json(data);
+    await getGenerationProvider().cancelTask(taskId);
+    await markTaskCancelled(taskId);
+
+    return NextResponse.json({});
   } catch (error) {
     console.error('Error canceling task:', error);
-
-    let errorResponse = { error: 'Internal server error' };
-    let status = 500;
-
-    if (error instanceof Error && error.message) {
-      try {
-        const parsedError = JSON.parse(error.message);
-        if (parsedError.status && parsedError.details) {
-          errorResponse = parsedError.details;
-          status = parsedError.status;
-
-          if (request.method === 'DELETE' && status === 404) {
-            return NextResponse.json(
-              { message: 'Task not found or already processed.', originalError: errorResponse },
-              { status: 404 }
-            );
-          }
-        }
-      } catch (e) {
-        errorResponse = { error: error.message || 'Internal server error' };
-      }
-    }
-    return NextResponse.json(errorResponse, { status });
+    return errorResponse(error);
   }
 }
 
@@ -72,5 +72,5 @@ type NextRouteHandler = (
   context: { params: { id: string } }
 ) => Promise<NextResponse>;
 
-export const GET: NextRouteHandler = withApiAuth(getTaskHandler);
-export const DELETE: NextRouteHandler = withApiAuth(cancelTaskHandler);
+export const GET: NextRouteHandler = withApiAuth(getTaskHandler, 'tasks:read');
+export const DELETE: NextRouteHandler = withApiAuth(cancelTaskHandler, 'tasks:cancel');
@@ -0,0 +1,66 @@
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { hasScope, type Principal } from '@/lib/auth';
+import { ErrorCode } from '@/lib/error-codes';
+import { TERMINAL_STATUSES, type TaskStatus } from '@/lib/providers';
+import { parseDate, parseInteger } from '@/lib/query-params';
+import { getTaskStore, type TaskFilter } from '@/lib/task-store';
+import { withApiAuth } from '@/middleware/api-auth';
+import { NextRequest, NextResponse } from 'next/server';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+const TASK_STATUSES: TaskStatus[] = ['PENDING', 'THROTTLED', 'RUNNING', ...TERMINAL_STATUSES];
+
+function parseStatuses(value: string | null) {
+  if (value === null) return undefined;
+
+  const statuses = value.split(',').map(status => status.trim().toUpperCase());
+  const unknown = statuses.filter(status => !TASK_STATUSES.includes(status as TaskStatus));
+
+  if (unknown.length > 0) {
+    throw new ApiError(
+      400,
+      ErrorCode.INVALID_REQUEST,
+      `Unknown status: ${unknown.join(', ')}. Expected one of: ${TASK_STATUSES.join(', ')}`
+    );
+  }
+  return statuses as TaskStatus[];
+}
+
+/**
+ * List recorded tasks, newest first. Callers only see their own tasks, administrators see all.
+ * Filters: `status` (comma separated), `hairstyle`, `batch`, `since` and `until` (ISO dates).
+ * Pagination: `limit` (default 20, max 100) and `offset`.
+ */
+async function listTasksHandler(request: NextRequest, _: unknown, principal: Principal) {
+  try {
+    const { searchParams } = request.nextUrl;
+
+    const filter: TaskFilter = {
+      status: parseStatuses(searchParams.get('status')),
+      hairstyle: searchParams.get('hairstyle') || undefined,
+      batchId: searchParams.get('batch') || undefined,
+      owner: hasScope(principal, 'admin') ? undefined : principal.id,
+      createdAfter: parseDate(searchParams.get('since'), 'since'),
+      createdBefore: parseDate(searchParams.get('until'), 'until'),
+    };
+    const limit = parseInteger(searchParams.get('limit'), 'limit', DEFAULT_LIMIT, MAX_LIMIT);
+    const offset = parseInteger(searchParams.get('offset'), 'offset', 0);
+
+    const { tasks, total } = await getTaskStore().list(filter, { limit, offset });
+
+    return NextResponse.json({
+      tasks,
+      total,
+      limit,
+      offset,
+      nextOffset: offset + tasks.length < total ? offset + tasks.length : null,
+    });
+  } catch (error) {
+    console.error('Error listing tasks:', error);
+    return errorResponse(error);
+  }
+}
+
+export const GET = withApiAuth(listTasksHandler, 'tasks:read');
@@ -0,0 +1,108 @@
+import { errorResponse } from '@/lib/api-errors';
+import { getPeriodStart } from '@/lib/periods';
+import { parseDate } from '@/lib/query-params';
+import { getResultCacheStats } from '@/lib/result-cache';
+import { getBudgetState } from '@/lib/usage';
+import { getUsageStore, type UsageRecord } from '@/lib/usage-store';
+import { withApiAuth } from '@/middleware/api-auth';
+import { NextRequest, NextResponse } from 'next/server';
+
+type UsageSummary = {
+  // Submissions attempted, including those the provider rejected
+  requests: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  rejected: number;
+  // Answered from the result cache without a new task
+  cached: number;
+  // Still running, or never looked at again after submission
+  pending: number;
+  credits: number;
+};
+
+const OUTCOME_FIELDS: Record<UsageRecord['outcome'], keyof UsageSummary> = {
+  SUBMITTED: 'pending',
+  SUCCEEDED: 'succeeded',
+  FAILED: 'failed',
+  CANCELLED: 'cancelled',
+  REJECTED: 'rejected',
+  CACHED: 'cached',
+};
+
+function emptySummary(): UsageSummary {
+  return {
+    requests: 0,
+    succeeded: 0,
+    failed: 0,
+    cancelled: 0,
+    rejected: 0,
+    cached: 0,
+    pending: 0,
+    credits: 0,
+  };
+}
+
+function addRecord(summary: UsageSummary, record: UsageRecord) {
+  summary.requests++;
+  summary[OUTCOME_FIELDS[record.outcome]]++;
+  summary.credits += record.credits;
+}
+
+/**
+ * Summarize records per key, most credits first
+ */
+function groupBy(records: UsageRecord[], getKey: (record: UsageRecord) => string) {
+  const groups = new Map<string, UsageSummary>();
+
+  records.forEach(record => {
+    const key = getKey(record);
+    const summary = groups.get(key) ?? emptySummary();
+    addRecord(summary, record);
+    groups.set(key, summary);
+  });
+
+  return Array.from(groups).sort(([a, x], [b, y]) => y.credits - x.credits || a.localeCompare(b));
+}
+
+/**
+ * Report generations and their estimated credit cost between `since` (default: the
+ * start of the current month) and `until` (default: now), in total and by day, caller
+ * and hairstyle, along with the state of the budget and the result cache.
+ */
+async function usageHandler(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const since =
+      parseDate(searchParams.get('since'), 'since') ??
+      new Date(getPeriodStart('monthly', Date.now())).toISOString();
+    const until = parseDate(searchParams.get('until'), 'until') ?? new Date().toISOString();
+
+    const records = await getUsageStore().list({ createdAfter: since, createdBefore: until });
+    const totals = emptySummary();
+    records.forEach(record => addRecord(totals, record));
+
+    return NextResponse.json({
+      since,
+      until,
+      totals,
+      byDay: groupBy(records, record => record.createdAt.slice(0, 10))
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([day, summary]) => ({ day, ...summary })),
+      byCaller: groupBy(records, record => record.caller).map(([caller, summary]) => ({
+        caller,
+        ...summary,
+      })),
+      byHairstyle: groupBy(records, record => record.hairstyle ?? 'custom').map(
+        ([hairstyle, summary]) => ({ hairstyle, ...summary })
+      ),
+      budget: await getBudgetState(),
+      resultCache: await getResultCacheStats(),
+    });
+  } catch (error) {
+    console.error('Error reporting usage:', error);
+    return errorResponse(error);
+  }
+}
+
+export const GET = withApiAuth(usageHandler, 'admin');
@@ -7,6 +7,8 @@ import './globals.css';
 export const metadata: Metadata = {
   title: 'Runway Hair Makeover',
   description: "Generate hair makeovers using Runway's API",
+  // Share previews need absolute image URLs
+  metadataBase: process.env.PUBLIC_BASE_URL ? new URL(process.env.PUBLIC_BASE_URL) : undefined,
 };
 
 export default function RootLayout({
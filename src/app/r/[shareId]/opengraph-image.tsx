@@ -0,0 +1,66 @@
+import { getHairstyle } from '@/lib/hairstyle-catalog';
+import { getResultId, readResult } from '@/lib/result-images';
+import { getActiveShare, readShareSelfie } from '@/lib/shares';
+import { ImageResponse } from 'next/og';
+
+export const alt = 'Hair makeover';
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+
+/**
+ * Inline a stored image, since the renderer cannot fetch URLs relative to this app
+ */
+async function toImageSource(url: string) {
+  const id = getResultId(url);
+  const result = id ? await readResult(id) : null;
+  if (result) return `data:${result.contentType};base64,${result.data.toString('base64')}`;
+
+  return /^https:\/\//.test(url) ? url : null;
+}
+
+/**
+ * Preview card for a share: the result, next to the selfie when the owner chose to show it
+ */
+export default async function Image({ params }: { params: Promise<{ shareId: string }> }) {
+  const share = await getActiveShare((await params).shareId);
+  if (!share) return new Response(null, { status: 404 });
+
+  const title = `${(share.hairstyle && getHairstyle(share.hairstyle)?.name) ?? 'New hairstyle'} makeover`;
+  const selfie = await readShareSelfie(share);
+  const images = [
+    selfie && `data:${selfie.contentType};base64,${selfie.data.toString('base64')}`,
+    await toImageSource(share.resultUrl),
+  ].filter((source): source is string => Boolean(source));
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: 24,
+          background: '#EFEEE6',
+          color: '#0C0C0C',
+        }}
+      >
+        <div style={{ display: 'flex', gap: 24 }}>
+          {images.map((source, index) => (
+            <img
+              key={`image-${index}`}
+              src={source}
+              alt=""
+              height={480}
+              style={{ borderRadius: 16, objectFit: 'contain' }}
+            />
+          ))}
+        </div>
+        <div style={{ display: 'flex', fontSize: 44 }}>{title}</div>
+      </div>
+    ),
+    size
+  );
+}
@@ -0,0 +1,88 @@
+import { Button } from '@/components/ui/button';
+import { getHairstyle } from '@/lib/hairstyle-catalog';
+import { getActiveShare, getShareSelfieUrl } from '@/lib/shares';
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+
+type SharePageProps = {
+  params: Promise<{ shareId: string }>;
+};
+
+export const dynamic = 'force-dynamic';
+
+function getHairstyleName(id: string | null) {
+  return (id && getHairstyle(id)?.name) ?? 'New hairstyle';
+}
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const share = await getActiveShare((await params).shareId);
+  if (!share) return { title: 'Makeover not found', robots: { index: false } };
+
+  const title = `${getHairstyleName(share.hairstyle)} makeover`;
+  const description = 'A hair makeover generated with Runway Hair Makeover.';
+
+  return {
+    title,
+    description,
+    // Shares are meant for the people they are sent to, not for search engines
+    robots: { index: false, follow: false },
+    openGraph: { title, description, type: 'website' },
+    twitter: { card: 'summary_large_image', title, description },
+  };
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const share = await getActiveShare((await params).shareId);
+  if (!share) notFound();
+
+  const hairstyleName = getHairstyleName(share.hairstyle);
+  const selfieUrl = share.selfie && getShareSelfieUrl(share.id);
+
+  return (
+    <main className="mx-auto w-full max-w-5xl flex-1 px-4 py-4 sm:px-6 sm:py-8 lg:px-8">
+      <div className="flex flex-col gap-6">
+        <div className="mx-auto flex flex-col items-center gap-2.5">
+          <h2 className="text-3xl font-normal text-[#0C0C0C] sm:text-4xl">{hairstyleName}</h2>
+          <p className="text-base font-normal text-[#7C7C7C] sm:text-lg">
+            A hair makeover generated from one selfie.
+          </p>
+        </div>
+
+        <div className="flex flex-col gap-6 rounded-lg border border-[#D0D4D4] bg-white p-12">
+          <div className="flex flex-col items-center justify-center gap-4 md:flex-row">
+            {selfieUrl && (
+              <figure className="flex flex-col items-center gap-2">
+                <img
+                  src={selfieUrl}
+                  alt="Before"
+                  className="max-h-[500px] w-auto rounded-lg object-contain"
+                />
+                <figcaption className="text-xs font-medium text-[#7C7C7C] uppercase">
+                  Before
+                </figcaption>
+              </figure>
+            )}
+            <figure className="flex flex-col items-center gap-2">
+              <img
+                src={share.resultUrl}
+                alt={`${hairstyleName} makeover`}
+                className="max-h-[500px] w-auto rounded-lg object-contain"
+              />
+              {selfieUrl && (
+                <figcaption className="text-xs font-medium text-[#7C7C7C] uppercase">
+                  After
+                </figcaption>
+              )}
+            </figure>
+          </div>
+          <div className="flex justify-center">
+            <Button asChild>
+              <Link href="/">Try your own makeover</Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,36 @@
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { ErrorCode } from '@/lib/error-codes';
+import { getActiveShare, readShareSelfie } from '@/lib/shares';
+import { NextRequest, NextResponse } from 'next/server';
+
+const SELFIE_HEADERS = {
+  // Not kept anywhere, so revoking or expiring the share takes the selfie down at once
+  'Cache-Control': 'private, no-store',
+  'X-Content-Type-Options': 'nosniff',
+  'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+};
+
+/**
+ * Serve the selfie of a share whose owner chose to show it, for as long as the share
+ * is active
+ */
+export async function GET(_: NextRequest, { params }: { params: Promise<{ shareId: string }> }) {
+  try {
+    const share = await getActiveShare((await params).shareId);
+    const selfie = share && (await readShareSelfie(share));
+    if (!selfie) {
+      throw new ApiError(404, ErrorCode.SHARE_NOT_FOUND, 'Share not found.');
+    }
+
+    return new NextResponse(new Uint8Array(selfie.data), {
+      headers: {
+        ...SELFIE_HEADERS,
+        'Content-Type': selfie.contentType,
+        'Content-Length': String(selfie.data.length),
+      },
+    });
+  } catch (error) {
+    console.error('Error serving share selfie:', error);
+    return errorResponse(error);
+  }
+}
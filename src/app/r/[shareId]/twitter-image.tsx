@@ -0,0 +1,6 @@
+// Twitter cards show the same preview as Open Graph
+export { default } from './opengraph-image';
+
+export const alt = 'Hair makeover';
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
@@ -0,0 +1,131 @@
+import { CompareView } from '@/components/demo/CompareView';
+import { Button } from '@/components/ui/button';
+import type { BatchItem, BatchRecord } from '@/lib/batch-store';
+import type { Hairstyle } from '@/lib/hairstyles';
+import { useState } from 'react';
+
+type BatchResultsGridProps = {
+  batch: BatchRecord | null;
+  // Hairstyles requested, shown as placeholders until the server answers
+  hairstyleIds: string[];
+  hairstyles: Hairstyle[];
+  // The selfie every hairstyle was tried on, shown first for reference
+  before?: string | null;
+  isRunning: boolean;
+  onReset: () => void;
+};
+
+const itemCopy: Record<BatchItem['status'], string> = {
+  QUEUED: 'Waiting...',
+  PENDING: 'In queue...',
+  THROTTLED: 'In queue...',
+  RUNNING: 'Generating...',
+  SUCCEEDED: 'Done',
+  FAILED: 'Failed',
+  CANCELLED: 'Cancelled',
+};
+
+export function BatchResultsGrid({
+  batch,
+  hairstyleIds,
+  hairstyles,
+  before,
+  isRunning,
+  onReset,
+}: BatchResultsGridProps) {
+  // Result opened for a closer comparison with the selfie
+  const [comparing, setComparing] = useState<string | null>(null);
+
+  const items: BatchItem[] =
+    batch?.items ?? hairstyleIds.map(hairstyle => ({ hairstyle, status: 'QUEUED' }));
+  const finished = items.filter(item => ['SUCCEEDED', 'FAILED', 'CANCELLED'].includes(item.status));
+  const getName = (id: string) => hairstyles.find(style => style.id === id)?.name ?? id;
+
+  const compared = items.find(item => item.hairstyle === comparing)?.output?.[0];
+  if (before && comparing && compared) {
+    return (
+      <div className="flex flex-col gap-6 p-6 sm:p-12">
+        <CompareView before={before} after={compared} label={getName(comparing)} />
+        <div className="flex justify-center gap-4">
+          <Button variant="outline" onClick={() => setComparing(null)}>
+            Back to all results
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-6 p-6 sm:p-12">
+      <p className="text-center text-sm text-[#7C7C7C]">
+        {isRunning
+          ? `Trying ${items.length} hairstyles: ${finished.length} of ${items.length} done`
+          : `Finished ${items.length} hairstyles`}
+        {before && finished.length > 0 && '. Select a result to compare it with the original.'}
+      </p>
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-3">
+        {before && (
+          <div className="flex flex-col gap-2">
+            <div className="relative flex aspect-square items-center justify-center overflow-hidden rounded-lg bg-[#F4F5F5]">
+              <img src={before} alt="Original selfie" className="h-full w-full object-cover" />
+            </div>
+            <p className="text-center text-xs font-medium text-[#0C0C0C]">Original</p>
+          </div>
+        )}
+        {items.map(item => {
+          const hairstyle = hairstyles.find(style => style.id === item.hairstyle);
+          const result = item.output?.[0];
+
+          return (
+            <div key={item.hairstyle} className="flex flex-col gap-2">
+              <div className="relative flex aspect-square items-center justify-center overflow-hidden rounded-lg bg-[#F4F5F5]">
+                {result ? (
+                  <button
+                    type="button"
+                    className="h-full w-full cursor-pointer disabled:cursor-default"
+                    onClick={() => setComparing(item.hairstyle)}
+                    disabled={!before}
+                    aria-label={`Compare ${getName(item.hairstyle)} with the original`}
+                  >
+                    <img
+                      src={result}
+                      alt={`${hairstyle?.name ?? item.hairstyle} result`}
+                      className="h-full w-full object-cover"
+                    />
+                  </button>
+                ) : (
+                  <>
+                    {hairstyle && (
+                      <img
+                        src={hairstyle.image}
+                        alt={hairstyle.name}
+                        className="absolute inset-0 h-full w-full object-cover opacity-30"
+                      />
+                    )}
+                    <p
+                      className={`relative text-sm ${item.status === 'FAILED' ? 'text-red-700' : 'text-[#0C0C0C]'}`}
+                      title={item.failure}
+                    >
+                      {itemCopy[item.status]}
+                      {item.status === 'RUNNING' &&
+                        typeof item.progress === 'number' &&
+                        ` ${Math.round(item.progress * 100)}%`}
+                    </p>
+                  </>
+                )}
+              </div>
+              <p className="text-center text-xs text-[#7C7C7C]">
+                {hairstyle?.name ?? item.hairstyle}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-center gap-4">
+        <Button variant="outline" onClick={onReset}>
+          {isRunning ? 'Stop watching' : 'Try different hairstyles'}
+        </Button>
+      </div>
+    </div>
+  );
+}
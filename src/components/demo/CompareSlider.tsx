@@ -0,0 +1,111 @@
+import { useRef, useState } from 'react';
+
+type CompareSliderProps = {
+  before: string;
+  after: string;
+  label: string;
+};
+
+// Position change per arrow key press, and with Shift or Page Up/Down
+const STEP = 1;
+const LARGE_STEP = 10;
+
+/**
+ * Before/after wipe: the selfie covers the result up to the handle. Drag anywhere
+ * with a mouse, finger or pen, or focus the handle and use the arrow keys. Results are
+ * square and the selfie is framed to match, so both fill the same square box alike and
+ * line up even when a selfie of another shape slips through.
+ */
+export function CompareSlider({ before, after, label }: CompareSliderProps) {
+  // Share of the width, from the left, showing the before image
+  const [position, setPosition] = useState(50);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef<number | null>(null);
+
+  const moveTo = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+
+    setPosition(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    draggingRef.current = event.pointerId;
+    moveTo(event.clientX);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (draggingRef.current === event.pointerId) moveTo(event.clientX);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (draggingRef.current === event.pointerId) draggingRef.current = null;
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = event.shiftKey ? LARGE_STEP : STEP;
+    const targets: Record<string, number> = {
+      ArrowLeft: position - step,
+      ArrowDown: position - step,
+      ArrowRight: position + step,
+      ArrowUp: position + step,
+      PageDown: position - LARGE_STEP,
+      PageUp: position + LARGE_STEP,
+      Home: 0,
+      End: 100,
+    };
+
+    if (event.key in targets) {
+      event.preventDefault();
+      setPosition(Math.min(100, Math.max(0, targets[event.key])));
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative aspect-square w-full max-w-[500px] cursor-ew-resize touch-pan-y overflow-hidden rounded-lg bg-[#F4F5F5] select-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <img
+        src={after}
+        alt={`${label}, after`}
+        className="absolute inset-0 h-full w-full object-cover"
+        draggable={false}
+      />
+      <img
+        src={before}
+        alt={`${label}, before`}
+        className="absolute inset-0 h-full w-full object-cover"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        draggable={false}
+      />
+      <span className="absolute top-2 left-2 rounded bg-black/50 px-2 py-0.5 text-xs text-white">
+        Before
+      </span>
+      <span className="absolute top-2 right-2 rounded bg-black/50 px-2 py-0.5 text-xs text-white">
+        After
+      </span>
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label={`Compare ${label} before and after`}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(position)}
+        aria-valuetext={`${Math.round(position)}% before`}
+        onKeyDown={handleKeyDown}
+        className="absolute top-0 bottom-0 -ml-px w-0.5 bg-white outline-none focus-visible:ring-[3px] focus-visible:ring-white/70"
+        style={{ left: `${position}%` }}
+      >
+        <div className="absolute top-1/2 left-1/2 flex size-8 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full bg-white text-xs text-[#0C0C0C] shadow">
+          ↔
+        </div>
+      </div>
+    </div>
+  );
+}
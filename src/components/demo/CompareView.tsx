@@ -0,0 +1,47 @@
+import { CompareSlider } from '@/components/demo/CompareSlider';
+import { ZoomCompare } from '@/components/demo/ZoomCompare';
+import { Button } from '@/components/ui/button';
+import { useState } from 'react';
+
+type CompareMode = 'slider' | 'zoom';
+
+type CompareViewProps = {
+  before: string;
+  after: string;
+  label: string;
+};
+
+const modes: { mode: CompareMode; label: string }[] = [
+  { mode: 'slider', label: 'Slider' },
+  { mode: 'zoom', label: 'Zoom' },
+];
+
+/**
+ * Compare a result with the selfie it was made from, with a wipe slider or side by side zoomed in
+ */
+export function CompareView({ before, after, label }: CompareViewProps) {
+  const [mode, setMode] = useState<CompareMode>('slider');
+
+  return (
+    <div className="flex w-full flex-col items-center gap-4">
+      <div role="group" aria-label="Comparison mode" className="flex gap-2">
+        {modes.map(option => (
+          <Button
+            key={option.mode}
+            size="sm"
+            variant={mode === option.mode ? 'default' : 'outline'}
+            aria-pressed={mode === option.mode}
+            onClick={() => setMode(option.mode)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+      {mode === 'slider' ? (
+        <CompareSlider before={before} after={after} label={label} />
+      ) : (
+        <ZoomCompare before={before} after={after} label={label} />
+      )}
+    </div>
+  );
+}
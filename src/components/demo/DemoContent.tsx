@@ -1,75 +1,120 @@
 'use client';
 
+import { BatchResultsGrid } from '@/components/demo/BatchResultsGrid';
 import { FaceShapeRecommendation } from '@/components/demo/FaceShapeRecommendation';
 import { HairstyleSelector } from '@/components/demo/HairstyleSelector';
+import { HistoryPanel } from '@/components/demo/HistoryPanel';
 import { ImagePicker } from '@/components/demo/ImagePicker';
 import { ImagePreview } from '@/components/demo/ImagePreview';
 import { LoadingState } from '@/components/demo/LoadingState';
 import { ResultView } from '@/components/demo/ResultView';
 import { useTextToImageContext } from '@/contexts/TextToImageContext';
+import { useBatchGeneration } from '@/hooks/useBatchGeneration';
 import { useFaceShapeDetection } from '@/hooks/useFaceShapeDetection';
+import { useHairstyles } from '@/hooks/useHairstyles';
+import { useGenerationHistory } from '@/hooks/useGenerationHistory';
 import { useImageUpload } from '@/hooks/useImageUpload';
-import { useEffect, useState } from 'react';
+import { useObjectUrl } from '@/hooks/useObjectUrl';
+import type { GenerateOptions, GenerationError } from '@/hooks/useTextToImage';
+import { ErrorCode } from '@/lib/error-codes';
+import { getFaceFraming, type Framing } from '@/lib/face-framing';
+import { getRecommendedHairstyleIds } from '@/lib/hairstyles';
+import type { HistoryEntry } from '@/lib/history-db';
+import { cropImageFile } from '@/lib/image-crop';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Button } from '../ui/button';
 
-const hairstyles = [
-  {
-    imageUrl: '/images/hairstyles/1.jpeg',
-    prompt: '',
-  },
-  {
-    imageUrl: '/images/hairstyles/2.jpeg',
-    prompt: '',
-  },
-  {
-    imageUrl: '/images/hairstyles/3.jpeg',
-    prompt: '',
-  },
-  {
-    imageUrl: '/images/hairstyles/4.jpeg',
-    prompt: '',
-  },
-  {
-    imageUrl: '/images/hairstyles/5.jpeg',
-    prompt: '',
-  },
-  {
-    imageUrl: '/images/hairstyles/6.jpeg',
-    prompt: '',
-  },
-  {
-    imageUrl: '/images/hairstyles/7.jpeg',
-    prompt: '',
-  },
-  {
-    imageUrl: '/images/hairstyles/8.jpeg',
-    prompt: '',
-  },
-  {
-    imageUrl: '/images/hairstyles/9.jpeg',
-    prompt: '',
-  },
-];
+const errorCopy: Partial<Record<ErrorCode, string>> = {
+  [ErrorCode.UPSTREAM_RATE_LIMITED]: 'Runway is busy right now. Please try again in a moment.',
+  [ErrorCode.UPSTREAM_UNAVAILABLE]: 'Runway is currently unavailable. Please try again later.',
+  [ErrorCode.UPSTREAM_VALIDATION_FAILED]:
+    'Runway could not process this photo. Please try a different selfie.',
+  [ErrorCode.PAYLOAD_TOO_LARGE]: 'This photo is too large. Please use a smaller one.',
+  [ErrorCode.UNSUPPORTED_MEDIA_TYPE]: 'Please upload a JPEG, PNG or WebP photo.',
+  [ErrorCode.UNKNOWN_HAIRSTYLE]: 'This hairstyle is no longer available. Please pick another one.',
+  [ErrorCode.TASK_FAILED]: 'The makeover could not be generated. Please try again.',
+  [ErrorCode.TASK_CANCELLED]: 'The makeover was cancelled. Please try again.',
+  [ErrorCode.BUDGET_EXHAUSTED]:
+    'The demo has run out of makeovers for now. Please come back later.',
+};
+
+/**
+ * Rough wait before a limit lifts, e.g. "2 minutes" or "3 hours"
+ */
+function formatWait(ms: number) {
+  const minutes = Math.max(1, Math.ceil(ms / 60_000));
+  if (minutes < 90) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+
+  const hours = Math.round(minutes / 60);
+  return `${hours} hours`;
+}
+
+function describeError({ code, message, retryAfterMs }: GenerationError) {
+  if (code === ErrorCode.RATE_LIMITED || code === ErrorCode.QUOTA_EXCEEDED) {
+    const prefix =
+      code === ErrorCode.RATE_LIMITED
+        ? "You're making makeovers too quickly."
+        : "You've used up your makeovers for now.";
+    return retryAfterMs ? `${prefix} Try again in ${formatWait(retryAfterMs)}.` : prefix;
+  }
+  return errorCopy[code] ?? message;
+}
 
 export function DemoContent() {
   const { image, imagePreview, handleImageSelection, resetImage } = useImageUpload();
-  const { isLoading, results, generateImage, resetResults } = useTextToImageContext();
-  const { 
-    faceShape, 
-    recommendedHairstyles,
-    detectFace, 
-    isLoading: isAnalyzing, 
-    error: faceShapeError 
+  const {
+    isLoading,
+    results,
+    error: generationError,
+    generateImage,
+    resetResults,
+    currentTaskId,
+  } = useTextToImageContext();
+  const { hairstyles, isLoading: isLoadingHairstyles, error: hairstylesError } = useHairstyles();
+  const {
+    faceShape,
+    faceAnalysis,
+    faces,
+    selectedFaceIndex,
+    selectFace,
+    detectFace,
+    isLoading: isAnalyzing,
+    error: faceShapeError,
   } = useFaceShapeDetection();
-  
-  const [selectedHairstyle, setSelectedHairstyle] = useState<number>(-1);
+  const {
+    batch,
+    isRunning: isBatchRunning,
+    error: batchError,
+    startBatch,
+    resetBatch,
+  } = useBatchGeneration();
+  const history = useGenerationHistory();
+  const { addEntry: addHistoryEntry } = history;
+
+  const [selectedHairstyle, setSelectedHairstyle] = useState<string | null>(null);
+  const [framing, setFraming] = useState<Framing | null>(null);
+  // Hairstyles of the batch being shown, if any
+  const [batchHairstyleIds, setBatchHairstyleIds] = useState<string[] | null>(null);
+  // The selfie exactly as last submitted, which results are compared with
+  const [submittedSelfie, setSubmittedSelfie] = useState<File | null>(null);
+  const submittedSelfieUrl = useObjectUrl(submittedSelfie);
+  // Makeover from the history being looked at again
+  const [openedEntry, setOpenedEntry] = useState<HistoryEntry | null>(null);
+  const openedSelfieUrl = useObjectUrl(openedEntry?.selfie ?? null);
   const [isMounted, setIsMounted] = useState(false);
+  // Set while the selfie is being prepared, so a double click submits only once
+  const isSubmittingRef = useRef(false);
 
   // Client-side only effect
   useEffect(() => {
     setIsMounted(true);
   }, []);
 
+  const recommendedHairstyles = useMemo(
+    () => (faceShape ? getRecommendedHairstyleIds(hairstyles, faceShape) : []),
+    [hairstyles, faceShape]
+  );
+
   // Analyze face shape when an image is uploaded
   useEffect(() => {
     if (isMounted && imagePreview) {
@@ -77,14 +122,113 @@ export function DemoContent() {
     }
   }, [imagePreview, detectFace, isMounted]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Frame the head and shoulders of the chosen face once it has been found; the user can
+  // adjust it after
+  useEffect(() => {
+    setFraming(
+      faceAnalysis
+        ? getFaceFraming(faceAnalysis.box, faceAnalysis.jawOutline, faceAnalysis.imageSize)
+        : null
+    );
+  }, [faceAnalysis]);
+
+  const error = generationError ?? batchError;
+
+  const getFramedSelfie = async (image: File) => {
+    if (!framing) return image;
+
+    try {
+      return await cropImageFile(image, framing);
+    } catch (error) {
+      // Fall back to the full photo, which the server crops on its own
+      console.error('Failed to crop selfie:', error);
+      return image;
+    }
+  };
+
+  // Recorded with each makeover, so results can be compared across face shape rulesets
+  const recordedAnalysis = faceAnalysis && {
+    faceShape: faceAnalysis.faceShape,
+    rulesetVariant: faceAnalysis.rulesetVariant,
+    rulesetVersion: faceAnalysis.rulesetVersion,
+  };
+
+  const getPrompt = useCallback(
+    (hairstyleId: string) => hairstyles.find(style => style.id === hairstyleId)?.prompt ?? null,
+    [hairstyles]
+  );
+
+  const runGeneration = async (selfie: File, hairstyleId: string, options?: GenerateOptions) => {
+    setSubmittedSelfie(selfie);
+    const { taskId, results } = await generateImage(selfie, hairstyleId, options);
+
+    if (taskId && results.length > 0) {
+      addHistoryEntry({
+        id: taskId,
+        hairstyleId,
+        prompt: getPrompt(hairstyleId),
+        outputs: results,
+        selfie,
+      });
+    }
+  };
+
+  const generate = async (options?: GenerateOptions) => {
+    if (!image || !selectedHairstyle || isSubmittingRef.current) return;
+
+    isSubmittingRef.current = true;
+    try {
+      const selfie = await getFramedSelfie(image);
+      runGeneration(selfie, selectedHairstyle, { ...options, faceAnalysis: recordedAnalysis });
+    } finally {
+      isSubmittingRef.current = false;
+    }
+  };
+
+  // Batch results join the history as each hairstyle finishes
+  useEffect(() => {
+    if (!batch || !submittedSelfie) return;
+
+    batch.items.forEach(item => {
+      if (item.status === 'SUCCEEDED' && item.taskId && item.output?.length) {
+        addHistoryEntry({
+          id: item.taskId,
+          hairstyleId: item.hairstyle,
+          prompt: getPrompt(item.hairstyle),
+          outputs: item.output,
+          selfie: submittedSelfie,
+        });
+      }
+    });
+    // Entries are only ever added once, so re-running when the catalog loads is harmless
+  }, [batch, submittedSelfie, getPrompt, addHistoryEntry]);
+
+  const handleRerun = (entry: HistoryEntry) => {
+    if (isLoading || isSubmittingRef.current) return;
+
+    setOpenedEntry(null);
+    handleBatchReset();
+    setSelectedHairstyle(entry.hairstyleId);
+    const selfie = new File([entry.selfie], 'selfie.jpg', { type: entry.selfie.type });
+    runGeneration(selfie, entry.hairstyleId, { fresh: true });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    generate();
+  };
 
-    const index = selectedHairstyle - 1;
-    const hairstyleData = hairstyles[index];
+  const handleTryRecommended = async () => {
+    if (!image || recommendedHairstyles.length === 0 || isSubmittingRef.current) return;
 
-    if (image && hairstyleData) {
-      generateImage(image, hairstyleData.imageUrl, hairstyleData.prompt);
+    isSubmittingRef.current = true;
+    try {
+      setBatchHairstyleIds(recommendedHairstyles);
+      const selfie = await getFramedSelfie(image);
+      setSubmittedSelfie(selfie);
+      startBatch(selfie, recommendedHairstyles, recordedAnalysis);
+    } finally {
+      isSubmittingRef.current = false;
     }
   };
 
@@ -92,7 +236,12 @@ export function DemoContent() {
     resetResults();
   };
 
-  const handleSelectRecommended = (hairstyleIds: number[]) => {
+  const handleBatchReset = () => {
+    resetBatch();
+    setBatchHairstyleIds(null);
+  };
+
+  const handleSelectRecommended = (hairstyleIds: string[]) => {
     if (hairstyleIds.length > 0) {
       // Select the first recommended hairstyle initially
       setSelectedHairstyle(hairstyleIds[0]);
@@ -113,8 +262,31 @@ export function DemoContent() {
           <LoadingState onCancel={() => handleReset()} />
         ) : (
           <>
-            {results.length > 0 ? (
-              <ResultView results={results} onReset={handleReset} />
+            {openedEntry ? (
+              <ResultView
+                results={openedEntry.outputs}
+                before={openedSelfieUrl}
+                taskId={openedEntry.id}
+                onReset={() => setOpenedEntry(null)}
+                onNewVariation={() => handleRerun(openedEntry)}
+              />
+            ) : results.length > 0 ? (
+              <ResultView
+                results={results}
+                before={submittedSelfieUrl}
+                taskId={currentTaskId}
+                onReset={handleReset}
+                onNewVariation={() => generate({ fresh: true })}
+              />
+            ) : batchHairstyleIds && !batchError ? (
+              <BatchResultsGrid
+                batch={batch}
+                hairstyleIds={batchHairstyleIds}
+                hairstyles={hairstyles}
+                before={submittedSelfieUrl}
+                isRunning={isBatchRunning}
+                onReset={handleBatchReset}
+              />
             ) : (
               <>
                 <div className="flex h-full flex-col items-center justify-between py-8 md:flex-row">
@@ -123,14 +295,30 @@ export function DemoContent() {
                       Add a selfie
                     </p>
                     {imagePreview ? (
-                      <ImagePreview imageUrl={imagePreview} onClear={resetImage} />
+                      <ImagePreview
+                        imageUrl={imagePreview}
+                        onClear={resetImage}
+                        framing={framing}
+                        imageSize={faceAnalysis?.imageSize}
+                        onFramingChange={setFraming}
+                        faces={faces.map(face => face.box)}
+                        selectedFaceIndex={selectedFaceIndex}
+                        onSelectFace={selectFace}
+                      />
                     ) : (
                       <ImagePicker onImageSelected={handleImageSelection} />
                     )}
-                    
+
+                    {imagePreview && faces.length > 1 && (
+                      <p className="text-center text-sm text-[#7C7C7C]">
+                        We found {faces.length} faces. Tap a face on the photo to choose who the
+                        makeover is for.
+                      </p>
+                    )}
+
                     {isMounted && imagePreview && (
                       <FaceShapeRecommendation
-                        faceShape={faceShape}
+                        analysis={faceAnalysis}
                         recommendedHairstyleIds={recommendedHairstyles}
                         isLoading={isAnalyzing}
                         error={faceShapeError}
@@ -142,17 +330,41 @@ export function DemoContent() {
                     <p className="text-center text-xs font-medium text-[#0C0C0C] uppercase">
                       Select hairstyle
                     </p>
-                    <HairstyleSelector 
-                      onSelect={setSelectedHairstyle} 
-                      recommendedIds={recommendedHairstyles}
-                    />
+                    {isLoadingHairstyles ? (
+                      <p className="text-center text-sm text-[#7C7C7C]">Loading hairstyles...</p>
+                    ) : hairstylesError ? (
+                      <p className="text-center text-sm text-red-700">{hairstylesError}</p>
+                    ) : (
+                      <HairstyleSelector
+                        hairstyles={hairstyles}
+                        selectedId={selectedHairstyle}
+                        onSelect={setSelectedHairstyle}
+                        recommendedIds={recommendedHairstyles}
+                      />
+                    )}
                   </div>
                 </div>
 
-                <div className="flex justify-end border-t border-[#E4E5E6] px-4 py-4 sm:px-8">
+                {error && (
+                  <div className="mx-4 mb-4 rounded-md border border-red-100 bg-red-50 p-4 text-center sm:mx-8">
+                    <p className="text-sm text-red-700">{describeError(error)}</p>
+                  </div>
+                )}
+
+                <div className="flex flex-col justify-end gap-2 border-t border-[#E4E5E6] px-4 py-4 sm:flex-row sm:px-8">
+                  {recommendedHairstyles.length > 1 && (
+                    <Button
+                      variant="outline"
+                      onClick={handleTryRecommended}
+                      disabled={!image}
+                      className="w-full sm:w-auto"
+                    >
+                      Try all recommended ({recommendedHairstyles.length})
+                    </Button>
+                  )}
                   <Button
                     onClick={handleSubmit}
-                    disabled={!image || selectedHairstyle === -1}
+                    disabled={!image || selectedHairstyle === null}
                     className="w-full sm:w-auto"
                   >
                     Generate
@@ -163,6 +375,29 @@ export function DemoContent() {
           </>
         )}
       </div>
+
+      {history.isAvailable && (
+        <HistoryPanel
+          entries={history.entries}
+          hairstyles={hairstyles}
+          error={history.error}
+          isBusy={isLoading || isBatchRunning}
+          onOpen={entry => {
+            handleBatchReset();
+            setOpenedEntry(entry);
+          }}
+          onRerun={handleRerun}
+          onToggleFavourite={history.toggleFavourite}
+          onDelete={entry => {
+            if (openedEntry?.id === entry.id) setOpenedEntry(null);
+            history.removeEntry(entry.id);
+          }}
+          onClearAll={() => {
+            setOpenedEntry(null);
+            history.clearAll();
+          }}
+        />
+      )}
     </div>
   );
 }
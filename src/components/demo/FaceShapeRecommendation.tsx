@@ -1,5 +1,6 @@
 import { Badge } from '@/components/ui/badge';
-import { FaceShape } from '@/lib/faceShapeDetection';
+import { FaceShape } from '@/lib/face-geometry';
+import type { FaceAnalysis } from '@/lib/faceShapeDetection';
 import { InfoIcon } from 'lucide-react';
 import { useEffect } from 'react';
 import { Button } from '../ui/button';
@@ -38,16 +39,23 @@ const faceShapeInfo: FaceShapeInfo = {
   },
 };
 
+// Shapes at least this likely are listed in the breakdown
+const MIN_LISTED_CONFIDENCE = 0.05;
+
+function formatConfidence(confidence: number) {
+  return `${Math.round(confidence * 100)}%`;
+}
+
 interface FaceShapeRecommendationProps {
-  faceShape: FaceShape | null;
-  recommendedHairstyleIds: number[];
+  analysis: FaceAnalysis | null;
+  recommendedHairstyleIds: string[];
   isLoading: boolean;
   error: string | null;
-  onSelectRecommended: (hairstyleIds: number[]) => void;
+  onSelectRecommended: (hairstyleIds: string[]) => void;
 }
 
 export function FaceShapeRecommendation({
-  faceShape,
+  analysis,
   recommendedHairstyleIds,
   isLoading,
   error,
@@ -83,11 +91,15 @@ export function FaceShapeRecommendation({
     );
   }
 
-  if (!faceShape || recommendedHairstyleIds.length === 0) {
+  if (!analysis || recommendedHairstyleIds.length === 0) {
     return null;
   }
 
+  const { faceShape, runnerUp, uncertain, confidence, rulesetVariant, rulesetVersion } = analysis;
   const info = faceShapeInfo[faceShape];
+  const breakdown = Object.values(FaceShape)
+    .filter(shape => confidence[shape] >= MIN_LISTED_CONFIDENCE)
+    .sort((a, b) => confidence[b] - confidence[a]);
 
   return (
     <div id="recommendation-section" className="mt-6 rounded-lg border border-[#E4E5E6] bg-white p-4">
@@ -99,10 +111,36 @@ export function FaceShapeRecommendation({
       <div className="mb-4">
         <div className="mb-2 flex items-center">
           <span className="mr-2 text-sm font-medium">Your face shape:</span>
+          <span className="mr-2 text-sm text-[#7C7C7C]">likely</span>
           <Badge variant="outline" className="bg-blue-50 font-medium capitalize text-blue-700">
             {faceShape}
           </Badge>
+          {uncertain && (
+            <>
+              <span className="mx-2 text-sm text-[#7C7C7C]">could be</span>
+              <Badge variant="outline" className="font-medium text-[#7C7C7C] capitalize">
+                {runnerUp}
+              </Badge>
+            </>
+          )}
         </div>
+        <ul className="mb-2 space-y-1" aria-label="Face shape confidence">
+          {breakdown.map(shape => (
+            <li key={shape} className="flex items-center gap-2 text-xs text-[#7C7C7C]">
+              <span className="w-14 capitalize">{shape}</span>
+              <span className="h-1.5 flex-1 overflow-hidden rounded-full bg-[#F0F0F0]">
+                <span
+                  className="block h-full rounded-full bg-blue-400"
+                  style={{ width: formatConfidence(confidence[shape]) }}
+                />
+              </span>
+              <span className="w-8 text-right">{formatConfidence(confidence[shape])}</span>
+            </li>
+          ))}
+        </ul>
+        <p className="mb-2 text-xs text-[#A0A0A0]">
+          Face shape rules: {rulesetVariant}, version {rulesetVersion}
+        </p>
         <p className="text-sm text-[#7C7C7C]">{info.description}</p>
         
         <div className="mt-2">
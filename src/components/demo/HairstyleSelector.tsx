@@ -1,13 +1,20 @@
+import type { Hairstyle } from '@/lib/hairstyles';
 import { cn } from '@/lib/utils';
 import { useEffect, useState } from 'react';
 
 type HairstyleSelectorProps = {
-  onSelect: (hairstyleId: number) => void;
-  recommendedIds?: number[];
+  hairstyles: Hairstyle[];
+  selectedId: string | null;
+  onSelect: (hairstyleId: string | null) => void;
+  recommendedIds?: string[];
 };
 
-export function HairstyleSelector({ onSelect, recommendedIds = [] }: HairstyleSelectorProps) {
-  const [selectedHairstyle, setSelectedHairstyle] = useState<number | null>(null);
+export function HairstyleSelector({
+  hairstyles,
+  selectedId,
+  onSelect,
+  recommendedIds = [],
+}: HairstyleSelectorProps) {
   const [showRecommendations, setShowRecommendations] = useState(false);
 
   useEffect(() => {
@@ -15,20 +22,9 @@ export function HairstyleSelector({ onSelect, recommendedIds = [] }: HairstyleSe
     setShowRecommendations(recommendedIds.length > 0);
   }, [recommendedIds]);
 
-  const hairstyles = Array.from({ length: 9 }, (_, id) => ({
-    id: id + 1,
-    src: `/images/hairstyles/${id + 1}.jpeg`,
-    isRecommended: recommendedIds.includes(id + 1)
-  }));
-
-  const handleSelect = (id: number) => {
-    if (selectedHairstyle === id) {
-      setSelectedHairstyle(null);
-      onSelect(-1); // -1 indicates no selection
-    } else {
-      setSelectedHairstyle(id);
-      onSelect(id);
-    }
+  const handleSelect = (id: string) => {
+    // Clicking the selected hairstyle again clears the selection
+    onSelect(selectedId === id ? null : id);
   };
 
   return (
@@ -38,42 +34,43 @@ export function HairstyleSelector({ onSelect, recommendedIds = [] }: HairstyleSe
         role="radiogroup"
         aria-label="Hairstyle options"
       >
-        {hairstyles.map(hairstyle => (
-          <div key={hairstyle.id} className="relative">
-            <button
-              type="button"
-              onClick={() => handleSelect(hairstyle.id)}
-              className={cn(
-                'mx-auto h-[100px] w-[100px] cursor-pointer overflow-hidden rounded-full border transition-all duration-300 focus:outline-none sm:h-30 sm:w-30',
-                selectedHairstyle === hairstyle.id ? 'border-[#000000] border-2' : 'border-[#E4E5E6]',
-                hairstyle.isRecommended && showRecommendations ? 'border-blue-500 border-2' : '',
-                selectedHairstyle !== null && selectedHairstyle !== hairstyle.id
-                  ? 'opacity-30'
-                  : 'opacity-100'
+        {hairstyles.map(hairstyle => {
+          const isRecommended = recommendedIds.includes(hairstyle.id);
+          return (
+            <div key={hairstyle.id} className="relative">
+              <button
+                type="button"
+                onClick={() => handleSelect(hairstyle.id)}
+                className={cn(
+                  'mx-auto h-[100px] w-[100px] cursor-pointer overflow-hidden rounded-full border transition-all duration-300 focus:outline-none sm:h-30 sm:w-30',
+                  selectedId === hairstyle.id ? 'border-2 border-[#000000]' : 'border-[#E4E5E6]',
+                  isRecommended && showRecommendations ? 'border-2 border-blue-500' : '',
+                  selectedId !== null && selectedId !== hairstyle.id ? 'opacity-30' : 'opacity-100'
+                )}
+                role="radio"
+                aria-checked={selectedId === hairstyle.id}
+              >
+                <img
+                  src={hairstyle.image}
+                  alt={hairstyle.name}
+                  className="h-full w-full object-cover"
+                />
+                <span className="sr-only">
+                  {selectedId === hairstyle.id
+                    ? `${hairstyle.name} selected`
+                    : `Select ${hairstyle.name}`}
+                </span>
+              </button>
+              {isRecommended && showRecommendations && (
+                <span className="absolute -top-1 -right-1 flex h-5 w-5 items-center justify-center rounded-full bg-blue-500 text-[10px] font-bold text-white">
+                  ✓
+                </span>
               )}
-              role="radio"
-              aria-checked={selectedHairstyle === hairstyle.id}
-            >
-              <img
-                src={hairstyle.src}
-                alt={`Hairstyle ${hairstyle.id}`}
-                className="h-full w-full object-cover"
-              />
-              <span className="sr-only">
-                {selectedHairstyle === hairstyle.id
-                  ? `Hairstyle ${hairstyle.id} selected`
-                  : `Select hairstyle ${hairstyle.id}`}
-              </span>
-            </button>
-            {hairstyle.isRecommended && showRecommendations && (
-              <span className="absolute -top-1 -right-1 flex h-5 w-5 items-center justify-center rounded-full bg-blue-500 text-[10px] font-bold text-white">
-                ✓
-              </span>
-            )}
-          </div>
-        ))}
+            </div>
+          );
+        })}
       </div>
-      
+
       {recommendedIds.length > 0 && (
         <div className="text-center">
           <button
@@ -0,0 +1,117 @@
+import { Button } from '@/components/ui/button';
+import { useObjectUrl } from '@/hooks/useObjectUrl';
+import type { Hairstyle } from '@/lib/hairstyles';
+import type { HistoryEntry } from '@/lib/history-db';
+import { Star, Trash2 } from 'lucide-react';
+
+type HistoryPanelProps = {
+  entries: HistoryEntry[];
+  hairstyles: Hairstyle[];
+  error: string | null;
+  // Set while a generation runs, when entries cannot be run again
+  isBusy: boolean;
+  onOpen: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onToggleFavourite: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+  onClearAll: () => void;
+};
+
+type HistoryItemProps = Omit<HistoryPanelProps, 'entries' | 'error' | 'onClearAll'> & {
+  entry: HistoryEntry;
+};
+
+function HistoryItem({
+  entry,
+  hairstyles,
+  isBusy,
+  onOpen,
+  onRerun,
+  onToggleFavourite,
+  onDelete,
+}: HistoryItemProps) {
+  const thumbnailUrl = useObjectUrl(entry.selfieThumbnail);
+  const name = hairstyles.find(style => style.id === entry.hairstyleId)?.name ?? entry.hairstyleId;
+
+  return (
+    <li className="flex items-center gap-3 rounded-lg border border-[#D0D4D4] p-2">
+      <button
+        type="button"
+        className="flex shrink-0 cursor-pointer gap-1"
+        onClick={() => onOpen(entry)}
+        aria-label={`Open the ${name} makeover`}
+      >
+        {thumbnailUrl && <img src={thumbnailUrl} alt="" className="size-14 rounded object-cover" />}
+        {entry.outputs[0] && (
+          <img src={entry.outputs[0]} alt="" className="size-14 rounded object-cover" />
+        )}
+      </button>
+      <div className="flex min-w-0 flex-1 flex-col">
+        <p className="truncate text-sm text-[#0C0C0C]">{name}</p>
+        <p className="text-xs text-[#7C7C7C]">{new Date(entry.createdAt).toLocaleString()}</p>
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onToggleFavourite(entry)}
+        aria-pressed={entry.favourite}
+        aria-label={entry.favourite ? 'Remove from favourites' : 'Add to favourites'}
+      >
+        <Star className={entry.favourite ? 'fill-current' : ''} />
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => onRerun(entry)} disabled={isBusy}>
+        Run again
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onDelete(entry)}
+        aria-label={`Delete the ${name} makeover`}
+      >
+        <Trash2 />
+      </Button>
+    </li>
+  );
+}
+
+/**
+ * Earlier makeovers kept in this browser, favourites first
+ */
+export function HistoryPanel({ entries, error, onClearAll, ...itemProps }: HistoryPanelProps) {
+  const sorted = [...entries].sort((a, b) => Number(b.favourite) - Number(a.favourite));
+
+  const handleClearAll = () => {
+    // Only the browser's copies go; the server keeps the images behind results and shares
+    if (
+      window.confirm(
+        'Delete all makeovers and selfies saved in this browser? ' +
+          'Images already sent to the server for your makeovers and share links are not deleted.'
+      )
+    ) {
+      onClearAll();
+    }
+  };
+
+  return (
+    <section className="flex flex-col gap-4 rounded-lg border border-[#D0D4D4] bg-white p-6">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-lg font-normal text-[#0C0C0C]">Your makeovers</h3>
+        <Button variant="outline" size="sm" onClick={handleClearAll}>
+          Clear history in this browser
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-700">{error}</p>}
+      {sorted.length === 0 ? (
+        <p className="text-sm text-[#7C7C7C]">
+          Makeovers you create are kept here, in this browser only.
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {sorted.map(entry => (
+            <HistoryItem key={entry.id} entry={entry} {...itemProps} />
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -1,18 +1,147 @@
+import { clampFraming, type FaceBox, type Framing, type Size } from '@/lib/face-framing';
+import { useRef } from 'react';
+
 type ImagePreviewProps = {
   imageUrl: string | null;
   onClear: () => void;
+  // Crop that will be submitted, shown as an adjustable square over the photo
+  framing?: Framing | null;
+  imageSize?: Size | null;
+  onFramingChange?: (framing: Framing) => void;
+  // Faces found in the photo; with more than one, each is shown as a box that can be chosen
+  faces?: FaceBox[];
+  selectedFaceIndex?: number;
+  onSelectFace?: (index: number) => void;
+};
+
+type DragState = {
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  // Source pixels per rendered pixel
+  scale: number;
+  framing: Framing;
 };
 
-export function ImagePreview({ imageUrl, onClear }: ImagePreviewProps) {
+export function ImagePreview({
+  imageUrl,
+  onClear,
+  framing,
+  imageSize,
+  onFramingChange,
+  faces = [],
+  selectedFaceIndex = 0,
+  onSelectFace,
+}: ImagePreviewProps) {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const startDrag = (mode: DragState['mode']) => (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!framing || !imageSize || !imageRef.current) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      mode,
+      startX: e.clientX,
+      startY: e.clientY,
+      scale: imageSize.width / imageRef.current.getBoundingClientRect().width,
+      framing,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !imageSize || !onFramingChange) return;
+
+    const dx = (e.clientX - drag.startX) * drag.scale;
+    const dy = (e.clientY - drag.startY) * drag.scale;
+    const { x, y, size } = drag.framing;
+
+    onFramingChange(
+      clampFraming(
+        drag.mode === 'move'
+          ? { x: x + dx, y: y + dy, size }
+          : {
+              x,
+              y,
+              size: Math.min(size + Math.max(dx, dy), imageSize.width - x, imageSize.height - y),
+            },
+        imageSize
+      )
+    );
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const toPercent = (value: number, total: number) => `${(value / total) * 100}%`;
+
   return (
     <div className="relative flex items-center justify-center">
       {imageUrl ? (
         <>
-          <img
-            src={imageUrl}
-            alt="Preview"
-            className="max-h-full max-w-full rounded-lg object-contain"
-          />
+          <div className="relative overflow-hidden rounded-lg">
+            <img
+              ref={imageRef}
+              src={imageUrl}
+              alt="Preview"
+              className="block max-h-full max-w-full object-contain"
+            />
+            {framing && imageSize && (
+              <div
+                className="absolute cursor-move touch-none border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]"
+                style={{
+                  left: toPercent(framing.x, imageSize.width),
+                  top: toPercent(framing.y, imageSize.height),
+                  width: toPercent(framing.size, imageSize.width),
+                  height: toPercent(framing.size, imageSize.height),
+                }}
+                onPointerDown={startDrag('move')}
+                onPointerMove={handlePointerMove}
+                onPointerUp={endDrag}
+                onPointerCancel={endDrag}
+                role="group"
+                aria-label="Photo framing, drag to move"
+              >
+                <div
+                  className="absolute -right-2 -bottom-2 h-4 w-4 cursor-nwse-resize touch-none rounded-full border-2 border-white bg-blue-500"
+                  onPointerDown={startDrag('resize')}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={endDrag}
+                  onPointerCancel={endDrag}
+                  aria-label="Drag to resize framing"
+                />
+              </div>
+            )}
+            {faces.length > 1 &&
+              imageSize &&
+              faces.map((face, index) => {
+                const isSelected = index === selectedFaceIndex;
+                return (
+                  <button
+                    key={index}
+                    type="button"
+                    className={`absolute cursor-pointer rounded-sm border-2 ${
+                      isSelected
+                        ? 'pointer-events-none border-blue-500'
+                        : 'border-dashed border-white hover:border-blue-300'
+                    }`}
+                    style={{
+                      left: toPercent(face.x, imageSize.width),
+                      top: toPercent(face.y, imageSize.height),
+                      width: toPercent(face.width, imageSize.width),
+                      height: toPercent(face.height, imageSize.height),
+                    }}
+                    onClick={() => onSelectFace?.(index)}
+                    aria-label={`Use face ${index + 1} of ${faces.length}`}
+                    aria-pressed={isSelected}
+                  />
+                );
+              })}
+          </div>
           <button
             onClick={onClear}
             className="bg-opacity-70 hover:bg-opacity-100 absolute -top-2 -right-2 cursor-pointer rounded-full bg-gray-800 p-1 text-white"
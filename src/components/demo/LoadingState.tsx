@@ -17,7 +17,7 @@ const copy = {
 };
 
 export function LoadingState({ onCancel }: LoadingStateProps) {
-  const { status, cancelTask } = useTextToImageContext();
+  const { status, progress, isRetrying, cancelTask } = useTextToImageContext();
 
   const handleCancel = async () => {
     await cancelTask();
@@ -27,7 +27,11 @@ export function LoadingState({ onCancel }: LoadingStateProps) {
   return (
     <div className="flex h-[50vh] flex-col items-center justify-center">
       <Spinner />
-      <p className="mt-4 text-lg">{copy[status]}</p>
+      <p className="mt-4 text-lg">
+        {copy[status]}
+        {status === Status.RUNNING && progress !== null && ` ${Math.round(progress * 100)}%`}
+      </p>
+      {isRetrying && <p className="mt-1 text-sm text-[#7C7C7C]">Runway is busy, retrying...</p>}
 
       <Button onClick={handleCancel} variant="outline" className="mt-4">
         Cancel
@@ -1,29 +1,52 @@
+import { CompareView } from '@/components/demo/CompareView';
+import { ShareControls } from '@/components/demo/ShareControls';
 import { Button } from '@/components/ui/button';
 
 type ResultViewProps = {
   results: string[];
+  // The selfie as submitted, to compare the results with
+  before?: string | null;
+  // Task the results belong to, which can be shared
+  taskId?: string | null;
   onReset: () => void;
+  // Generate the same hairstyle again, bypassing the cached result
+  onNewVariation?: () => void;
 };
 
-export function ResultView({ results, onReset }: ResultViewProps) {
+export function ResultView({ results, before, taskId, onReset, onNewVariation }: ResultViewProps) {
   return (
     <div className="flex flex-col gap-6 p-12">
       <div className="flex items-center justify-center gap-4">
-        {results.map((result, index) => (
-          <div key={`result-${index}`} className="relative">
-            <img
-              src={result}
-              alt="Processed result"
-              className="max-h-[500px] w-auto rounded-lg object-contain"
+        {results.map((result, index) =>
+          before ? (
+            <CompareView
+              key={`result-${index}`}
+              before={before}
+              after={result}
+              label="Processed result"
             />
-          </div>
-        ))}
+          ) : (
+            <div key={`result-${index}`} className="relative">
+              <img
+                src={result}
+                alt="Processed result"
+                className="max-h-[500px] w-auto rounded-lg object-contain"
+              />
+            </div>
+          )
+        )}
       </div>
       <div className="flex justify-center gap-4">
+        {onNewVariation && (
+          <Button variant="outline" onClick={onNewVariation}>
+            New variation
+          </Button>
+        )}
         <Button variant="outline" onClick={onReset}>
           Try a different hairstyle
         </Button>
       </div>
+      {taskId && <ShareControls key={taskId} taskId={taskId} />}
     </div>
   );
 }
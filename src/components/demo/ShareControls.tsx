@@ -0,0 +1,72 @@
+import { Button } from '@/components/ui/button';
+import { useShareLink } from '@/hooks/useShareLink';
+import { useState } from 'react';
+
+type ShareControlsProps = {
+  taskId: string;
+};
+
+export function ShareControls({ taskId }: ShareControlsProps) {
+  const { share, isBusy, error, createShare, revokeShare } = useShareLink();
+  const [includeSelfie, setIncludeSelfie] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+
+  const handleCopy = async () => {
+    if (!share) return;
+
+    try {
+      await navigator.clipboard.writeText(share.url);
+      setIsCopied(true);
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+    }
+  };
+
+  if (share) {
+    return (
+      <div className="flex flex-col items-center gap-3">
+        <div className="flex w-full max-w-md items-center gap-2">
+          <input
+            readOnly
+            value={share.url}
+            onFocus={e => e.target.select()}
+            className="flex-1 rounded-md border border-[#D0D4D4] px-3 py-2 text-sm text-[#0C0C0C]"
+          />
+          <Button variant="outline" onClick={handleCopy}>
+            {isCopied ? 'Copied' : 'Copy'}
+          </Button>
+        </div>
+        <p className="text-xs text-[#7C7C7C]">
+          Anyone with the link can see this makeover until{' '}
+          {new Date(share.expiresAt).toLocaleDateString()}.{' '}
+          {share.includesSelfie ? 'Your selfie is included.' : 'Your selfie is not included.'}
+        </p>
+        <Button variant="outline" onClick={revokeShare} disabled={isBusy}>
+          Revoke link
+        </Button>
+        {error && <p className="text-sm text-red-700">{error.message}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <label className="flex items-center gap-2 text-sm text-[#0C0C0C]">
+        <input
+          type="checkbox"
+          checked={includeSelfie}
+          onChange={e => setIncludeSelfie(e.target.checked)}
+        />
+        Include my selfie as the &quot;before&quot; picture
+      </label>
+      <Button
+        variant="outline"
+        onClick={() => createShare(taskId, includeSelfie)}
+        disabled={isBusy}
+      >
+        Create share link
+      </Button>
+      {error && <p className="text-sm text-red-700">{error.message}</p>}
+    </div>
+  );
+}
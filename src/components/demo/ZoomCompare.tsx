@@ -0,0 +1,70 @@
+import { Button } from '@/components/ui/button';
+import { useZoomPan } from '@/hooks/useZoomPan';
+
+type ZoomCompareProps = {
+  before: string;
+  after: string;
+  label: string;
+};
+
+/**
+ * The selfie and the result side by side, zoomed and panned together so the same
+ * detail is shown in both. Both panes are the same square box filled alike, as in
+ * `CompareSlider`, so the first pane's pan limits hold for the second too.
+ */
+export function ZoomCompare({ before, after, label }: ZoomCompareProps) {
+  const { view, viewRef, wheelTargetRef, zoomIn, zoomOut, reset, handlers } = useZoomPan();
+  const transform = `translate(${view.x}px, ${view.y}px) scale(${view.scale})`;
+
+  const panes = [
+    { src: before, caption: 'Before' },
+    { src: after, caption: 'After' },
+  ];
+
+  return (
+    <div className="flex w-full flex-col items-center gap-3">
+      <div
+        ref={wheelTargetRef}
+        tabIndex={0}
+        role="group"
+        aria-label={`${label}, before and after. Use + and - to zoom, arrow keys to pan and 0 to reset.`}
+        className={`grid w-full grid-cols-2 gap-4 rounded-lg outline-none focus-visible:ring-[3px] focus-visible:ring-[#0C0C0C]/30 ${view.scale > 1 ? 'cursor-grab touch-none' : ''}`}
+        {...handlers}
+      >
+        {panes.map((pane, index) => (
+          <figure key={pane.caption} className="flex flex-col items-center gap-2">
+            <div
+              ref={index === 0 ? viewRef : undefined}
+              className="relative aspect-square w-full overflow-hidden rounded-lg bg-[#F4F5F5]"
+            >
+              <img
+                src={pane.src}
+                alt={`${label}, ${pane.caption.toLowerCase()}`}
+                className="absolute inset-0 h-full w-full object-cover select-none"
+                style={{ transform, transformOrigin: 'center' }}
+                draggable={false}
+              />
+            </div>
+            <figcaption className="text-xs font-medium text-[#7C7C7C] uppercase">
+              {pane.caption}
+            </figcaption>
+          </figure>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={zoomOut} aria-label="Zoom out">
+          −
+        </Button>
+        <span className="w-12 text-center text-xs text-[#7C7C7C]">
+          {Math.round(view.scale * 100)}%
+        </span>
+        <Button variant="outline" size="sm" onClick={zoomIn} aria-label="Zoom in">
+          +
+        </Button>
+        <Button variant="outline" size="sm" onClick={reset}>
+          Reset
+        </Button>
+      </div>
+    </div>
+  );
+}
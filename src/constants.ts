@@ -11,3 +11,4 @@ export const RUNWAY_API_URL = 'https://api.dev.runwayml.com';
 export const RUNWAY_API_VERSION = '2024-11-06';
 
 export const OUTPUT_RATIO = '1080:1080'; // 1:1
+export const GENERATION_MODEL = 'gen4_image';
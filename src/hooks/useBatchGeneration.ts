@@ -0,0 +1,129 @@
+'use client';
+
+import type { GenerationError } from '@/hooks/useTextToImage';
+import {
+  apiFetch,
+  ApiRequestError,
+  delay,
+  readApiError,
+  readFileAsDataUrl,
+} from '@/lib/api-client';
+import type { BatchRecord } from '@/lib/batch-store';
+import { ErrorCode } from '@/lib/error-codes';
+import type { TaskFaceAnalysis } from '@/lib/task-store';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const POLL_INTERVAL_MS = 2000;
+// How many failed status checks in a row we ride out before giving up
+const MAX_POLL_FAILURES = 5;
+
+const FINISHED_BATCH_STATUSES: BatchRecord['status'][] = [
+  'SUCCEEDED',
+  'PARTIALLY_SUCCEEDED',
+  'FAILED',
+  'CANCELLED',
+];
+
+export function isBatchFinished(batch: BatchRecord) {
+  return FINISHED_BATCH_STATUSES.includes(batch.status);
+}
+
+/**
+ * Try one selfie with several hairstyles at once. The batch is polled until every
+ * hairstyle has finished, so results can be shown as they come in.
+ */
+export function useBatchGeneration() {
+  const [batch, setBatch] = useState<BatchRecord | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<GenerationError | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const stopPolling = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+  };
+
+  // Stop polling when the component using the hook goes away
+  useEffect(() => stopPolling, []);
+
+  const startBatch = useCallback(
+    async (userImage: File, hairstyleIds: string[], faceAnalysis: TaskFaceAnalysis | null) => {
+      stopPolling();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      setBatch(null);
+      setError(null);
+      setIsStarting(true);
+
+      try {
+        const response = await apiFetch('/api/generate/batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Idempotency-Key': crypto.randomUUID() },
+          body: JSON.stringify({
+            userImage: await readFileAsDataUrl(userImage),
+            hairstyleIds,
+            ...(faceAnalysis && { faceAnalysis }),
+          }),
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          throw await readApiError(response, 'Failed to start the batch');
+        }
+
+        let current = (await response.json()) as BatchRecord;
+        setBatch(current);
+        setIsStarting(false);
+
+        let failures = 0;
+        while (!isBatchFinished(current)) {
+          await delay(POLL_INTERVAL_MS, controller.signal);
+
+          const poll = await apiFetch(`/api/batches/${current.id}`, { signal: controller.signal });
+          if (!poll.ok) {
+            const pollError = await readApiError(poll, 'Failed to fetch batch status');
+            if (++failures > MAX_POLL_FAILURES) throw pollError;
+            continue;
+          }
+
+          failures = 0;
+          current = (await poll.json()) as BatchRecord;
+          setBatch(current);
+        }
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+
+        console.error('Error running batch:', error);
+        setError(
+          error instanceof ApiRequestError
+            ? { code: error.code, message: error.message, retryAfterMs: error.retryAfterMs }
+            : { code: ErrorCode.INTERNAL_ERROR, message: 'Failed to run the batch' }
+        );
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+          setIsStarting(false);
+        }
+      }
+    },
+    []
+  );
+
+  const resetBatch = useCallback(() => {
+    // The batch keeps running on the server; we just stop following it
+    stopPolling();
+    setBatch(null);
+    setError(null);
+    setIsStarting(false);
+  }, []);
+
+  return {
+    batch,
+    isStarting,
+    isRunning: isStarting || (batch !== null && !isBatchFinished(batch)),
+    error,
+    startBatch,
+    resetBatch,
+  };
+}
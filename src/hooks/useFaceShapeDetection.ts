@@ -1,10 +1,16 @@
-import { detectFaceShape, FaceShape, getRecommendedHairstyles, loadFaceDetectionModels } from '@/lib/faceShapeDetection';
+import {
+  detectFaceShapes,
+  type FaceAnalysis,
+  loadFaceDetectionModels,
+} from '@/lib/faceShapeDetection';
 import { useCallback, useEffect, useState } from 'react';
 
 export function useFaceShapeDetection() {
   const [isLoading, setIsLoading] = useState(false);
-  const [faceShape, setFaceShape] = useState<FaceShape | null>(null);
-  const [recommendedHairstyles, setRecommendedHairstyles] = useState<number[]>([]);
+  // Every face found in the photo, largest first
+  const [faces, setFaces] = useState<FaceAnalysis[]>([]);
+  // The face the recommendation and framing are for
+  const [selectedFaceIndex, setSelectedFaceIndex] = useState(0);
   const [modelsLoaded, setModelsLoaded] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isBrowser, setIsBrowser] = useState(false);
@@ -18,13 +24,13 @@ export function useFaceShapeDetection() {
   // Load face detection models
   useEffect(() => {
     if (!isBrowser) return; // Skip on server-side rendering
-    
+
     async function loadModels() {
       if (!modelsLoaded) {
         try {
           setIsLoading(true);
           const success = await loadFaceDetectionModels();
-          
+
           if (success) {
             setModelsLoaded(true);
             setError(null);
@@ -35,12 +41,16 @@ export function useFaceShapeDetection() {
               setRetryCount(prev => prev + 1);
               // Will trigger this effect again with increased retry count
             } else {
-              setError('Failed to load face detection models after multiple attempts. Recommendation feature may not work properly.');
+              setError(
+                'Failed to load face detection models after multiple attempts. Recommendation feature may not work properly.'
+              );
             }
           }
         } catch (err) {
           console.error('Failed to load models:', err);
-          setError('Failed to load face detection models. Recommendation feature may not work properly.');
+          setError(
+            'Failed to load face detection models. Recommendation feature may not work properly.'
+          );
         } finally {
           setIsLoading(false);
         }
@@ -51,50 +61,65 @@ export function useFaceShapeDetection() {
   }, [modelsLoaded, isBrowser, retryCount]);
 
   // Detect face shape from image
-  const detectFace = useCallback(async (imageUrl: string): Promise<void> => {
-    if (!isBrowser) return; // Skip on server-side rendering
-    
-    // Let's continue even if models aren't fully loaded yet
-    // The detectFaceShape function will try to load them if needed
-    
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const img = new Image();
-      img.crossOrigin = 'anonymous';
-      
-      await new Promise<void>((resolve, reject) => {
-        img.onload = () => resolve();
-        img.onerror = () => reject(new Error('Failed to load image'));
-        img.src = imageUrl;
-      });
-
-      console.log('Image loaded, detecting face shape...');
-      const detectedShape = await detectFaceShape(img);
-      
-      if (detectedShape) {
-        console.log('Face shape detected:', detectedShape);
-        setFaceShape(detectedShape);
-        const recommendations = getRecommendedHairstyles(detectedShape);
-        setRecommendedHairstyles(recommendations);
-      } else {
-        setError('No face detected in the image. Please try a clearer photo.');
+  const detectFace = useCallback(
+    async (imageUrl: string): Promise<void> => {
+      if (!isBrowser) return; // Skip on server-side rendering
+
+      // Let's continue even if models aren't fully loaded yet
+      // The detectFaceShapes function will try to load them if needed
+
+      setIsLoading(true);
+      setError(null);
+      setFaces([]);
+      setSelectedFaceIndex(0);
+
+      try {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+
+        await new Promise<void>((resolve, reject) => {
+          img.onload = () => resolve();
+          img.onerror = () => reject(new Error('Failed to load image'));
+          img.src = imageUrl;
+        });
+
+        console.log('Image loaded, detecting face shape...');
+        const detected = await detectFaceShapes(img);
+
+        if (detected.length > 0) {
+          console.log(`${detected.length} face(s) detected`);
+          setFaces(detected);
+        } else {
+          setError('No face detected in the image. Please try a clearer photo.');
+        }
+      } catch (err) {
+        console.error('Error during face detection:', err);
+        setError('Error analyzing face shape. Please try again with a different photo.');
+      } finally {
+        setIsLoading(false);
       }
-    } catch (err) {
-      console.error('Error during face detection:', err);
-      setError('Error analyzing face shape. Please try again with a different photo.');
-    } finally {
-      setIsLoading(false);
-    }
-  }, [isBrowser]);
+    },
+    [isBrowser]
+  );
+
+  const selectFace = useCallback(
+    (index: number) => {
+      if (index >= 0 && index < faces.length) setSelectedFaceIndex(index);
+    },
+    [faces.length]
+  );
+
+  const faceAnalysis = faces[selectedFaceIndex] ?? null;
 
   return {
     isLoading,
-    faceShape,
-    recommendedHairstyles,
+    faceShape: faceAnalysis?.faceShape ?? null,
+    faceAnalysis,
+    faces,
+    selectedFaceIndex,
+    selectFace,
     detectFace,
     error,
     modelsLoaded,
   };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import {
+  clearHistory,
+  deleteHistoryEntry,
+  isHistoryAvailable,
+  listHistory,
+  saveHistoryEntry,
+  updateHistoryEntry,
+  type HistoryEntry,
+} from '@/lib/history-db';
+import { createThumbnail } from '@/lib/image-crop';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const THUMBNAIL_SIZE = 160;
+
+export type NewHistoryEntry = Pick<HistoryEntry, 'id' | 'hairstyleId' | 'prompt' | 'outputs'> & {
+  selfie: Blob;
+};
+
+/**
+ * Makeovers remembered in this browser's IndexedDB, so they survive reloads.
+ * Without IndexedDB (e.g. some private modes) the history simply stays empty.
+ */
+export function useGenerationHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  // Only known once mounted, as IndexedDB does not exist while rendering on the server
+  const [isAvailable, setIsAvailable] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Entries already written, so re-renders with the same result don't write again
+  const savedIdsRef = useRef(new Set<string>());
+
+  const reload = useCallback(async () => {
+    if (!isHistoryAvailable()) return;
+
+    try {
+      const history = await listHistory();
+      history.forEach(entry => savedIdsRef.current.add(entry.id));
+      setEntries(history);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load history:', err);
+      setError('Your history could not be loaded.');
+    }
+  }, []);
+
+  useEffect(() => {
+    setIsAvailable(isHistoryAvailable());
+    reload();
+  }, [reload]);
+
+  const run = useCallback(
+    async (action: () => Promise<void>, failure: string) => {
+      try {
+        await action();
+      } catch (err) {
+        console.error(`${failure}:`, err);
+        setError(`${failure}.`);
+      }
+      await reload();
+    },
+    [reload]
+  );
+
+  const addEntry = useCallback(
+    async ({ selfie, ...entry }: NewHistoryEntry) => {
+      if (!isHistoryAvailable() || savedIdsRef.current.has(entry.id)) return;
+      savedIdsRef.current.add(entry.id);
+
+      await run(async () => {
+        await saveHistoryEntry({
+          ...entry,
+          selfie,
+          selfieThumbnail: await createThumbnail(selfie, THUMBNAIL_SIZE),
+          favourite: false,
+          createdAt: new Date().toISOString(),
+        });
+      }, 'Failed to save the makeover to your history');
+    },
+    [run]
+  );
+
+  const toggleFavourite = useCallback(
+    (entry: HistoryEntry) =>
+      run(
+        () => updateHistoryEntry(entry.id, { favourite: !entry.favourite }),
+        'Failed to update your history'
+      ),
+    [run]
+  );
+
+  const removeEntry = useCallback(
+    (id: string) => run(() => deleteHistoryEntry(id), 'Failed to delete the makeover'),
+    [run]
+  );
+
+  const clearAll = useCallback(async () => {
+    await run(clearHistory, 'Failed to clear your history');
+    savedIdsRef.current.clear();
+  }, [run]);
+
+  return {
+    entries,
+    isAvailable,
+    error,
+    addEntry,
+    toggleFavourite,
+    removeEntry,
+    clearAll,
+  };
+}
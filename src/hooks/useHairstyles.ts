@@ -0,0 +1,39 @@
+'use client';
+
+import type { Hairstyle } from '@/lib/hairstyles';
+import { useEffect, useState } from 'react';
+
+export function useHairstyles() {
+  const [hairstyles, setHairstyles] = useState<Hairstyle[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    async function loadHairstyles() {
+      try {
+        const response = await fetch('/api/hairstyles', { signal: controller.signal });
+        if (!response.ok) {
+          throw new Error(`Failed to load hairstyles (${response.status})`);
+        }
+        const data = (await response.json()) as { hairstyles: Hairstyle[] };
+        setHairstyles(data.hairstyles);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load hairstyles:', err);
+        setError('Failed to load hairstyles. Please refresh the page.');
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    loadHairstyles();
+    return () => controller.abort();
+  }, []);
+
+  return { hairstyles, isLoading, error };
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import type { GenerationError } from '@/hooks/useTextToImage';
+import { apiFetch, ApiRequestError, readApiError } from '@/lib/api-client';
+import { ErrorCode } from '@/lib/error-codes';
+import type { PublicShare } from '@/lib/shares';
+import { useCallback, useState } from 'react';
+
+function toShareError(error: unknown, fallbackMessage: string): GenerationError {
+  return error instanceof ApiRequestError
+    ? { code: error.code, message: error.message }
+    : { code: ErrorCode.INTERNAL_ERROR, message: fallbackMessage };
+}
+
+/**
+ * Create and revoke a public link to one result. Nothing is shared until
+ * `createShare` is called, and the selfie only when asked for.
+ */
+export function useShareLink() {
+  const [share, setShare] = useState<PublicShare | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<GenerationError | null>(null);
+
+  const createShare = useCallback(async (taskId: string, includeSelfie: boolean) => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch('/api/shares', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskId, includeSelfie }),
+      });
+      if (!response.ok) {
+        throw await readApiError(response, 'Failed to create the share link');
+      }
+
+      const { share } = (await response.json()) as { share: PublicShare };
+      setShare({ ...share, url: new URL(share.url, window.location.origin).toString() });
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      setError(toShareError(error, 'Failed to create the share link'));
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  const revokeShare = useCallback(async () => {
+    if (!share) return;
+
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`/api/shares/${share.id}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) {
+        throw await readApiError(response, 'Failed to revoke the share link');
+      }
+      setShare(null);
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      setError(toShareError(error, 'Failed to revoke the share link'));
+    } finally {
+      setIsBusy(false);
+    }
+  }, [share]);
+
+  return { share, isBusy, error, createShare, revokeShare };
+}
@@ -1,11 +1,66 @@
 'use client';
 
+import {
+  apiFetch,
+  ApiRequestError,
+  delay,
+  readApiError,
+  readFileAsDataUrl,
+} from '@/lib/api-client';
+import { ErrorCode, type ApiErrorBody } from '@/lib/error-codes';
+import { isTerminalStatus } from '@/lib/providers/types';
+import type { TaskFaceAnalysis } from '@/lib/task-store';
 import { useEffect, useRef, useState } from 'react';
 
 type Task = {
   id: string;
+  // Set when the result came straight from the server's result cache
+  status?: string;
+  output?: string[];
 };
 
+export type GenerateOptions = {
+  // Ask for a new variation instead of a cached earlier result
+  fresh?: boolean;
+  // The face shape detected in the selfie, recorded with the task
+  faceAnalysis?: TaskFaceAnalysis | null;
+};
+
+export type GenerationOutcome = {
+  // Null when the task could not be created
+  taskId: string | null;
+  // Empty unless the generation succeeded
+  results: string[];
+};
+
+export type GenerationError = {
+  code: ErrorCode;
+  message: string;
+  // When the request may be tried again, for rate limits and quotas
+  retryAfterMs?: number;
+};
+
+const POLL_INTERVAL_MS = 2500;
+// How many transient failures in a row we ride out before giving up
+const MAX_TRANSIENT_RETRIES = 5;
+
+type ProgressHandlers = {
+  setStatus: (status: Status) => void;
+  setProgress: (progress: number | null) => void;
+  setIsRetrying: (isRetrying: boolean) => void;
+};
+
+// The caller's own limits, which waiting a few seconds will not lift
+const CALLER_LIMIT_CODES = [ErrorCode.RATE_LIMITED, ErrorCode.QUOTA_EXCEEDED];
+
+function isTransient(error: unknown): error is ApiRequestError {
+  return (
+    error instanceof ApiRequestError &&
+    error.retryAfterMs !== undefined &&
+    !CALLER_LIMIT_CODES.includes(error.code)
+  );
+}
+
 export enum Status {
   IDLE = 'IDLE',
   PENDING = 'PENDING',
@@ -19,6 +74,11 @@ export function useTextToImage() {
   const [isLoading, setIsLoading] = useState(false);
   const [results, setResults] = useState<string[]>([]);
   const [currentTaskId, setCurrentTaskId] = useState<string | null>(null);
+  const [error, setError] = useState<GenerationError | null>(null);
+  // Set while a transient upstream failure is being retried
+  const [isRetrying, setIsRetrying] = useState(false);
+  // Fraction of the task completed (0-1), when the upstream reports it
+  const [progress, setProgress] = useState<number | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
 
   // Update isLoading whenever status changes
@@ -26,8 +86,14 @@ export function useTextToImage() {
     setIsLoading(status === Status.PENDING || status === Status.RUNNING);
   }, [status]);
 
-  const generateImage = async (userImage: File, hairstyleImageUrl: string, prompt: string) => {
+  const generateImage = async (
+    userImage: File,
+    hairstyleId: string,
+    { fresh = false, faceAnalysis }: GenerateOptions = {}
+  ): Promise<GenerationOutcome> => {
     setStatus(Status.PENDING);
+    setError(null);
+    setProgress(null);
 
     try {
       // Create a new abort controller at the beginning
@@ -35,56 +101,75 @@ export function useTextToImage() {
       abortControllerRef.current = controller;
 
       // Convert userImage to base64
-      const userImageBase64 = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(userImage);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
-      });
-
-      // Fetch hairstyle image and convert to base64
-      const hairstyleImageResponse = await fetch(hairstyleImageUrl);
-      if (!hairstyleImageResponse.ok) {
-        throw new Error('Failed to fetch hairstyle image');
-      }
-      const hairstyleImageBlob = await hairstyleImageResponse.blob();
-      const hairstyleImageBase64 = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(hairstyleImageBlob);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
-      });
+      const userImageBase64 = await readFileAsDataUrl(userImage);
 
       const payload = {
         userImage: userImageBase64,
-        hairstyleImage: hairstyleImageBase64,
-        prompt: prompt,
+        hairstyleId,
+        ...(fresh && { fresh }),
+        ...(faceAnalysis && { faceAnalysis }),
       };
+      // Every attempt below is the same generation, so the server creates at most one task
+      const idempotencyKey = crypto.randomUUID();
 
-      const response = await fetch('/api/generate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-        signal: controller.signal, // Use the abort signal for the initial request
-      });
+      let task: Task | null = null;
+      for (let attempt = 0; !task; attempt++) {
+        let response: Response;
+        try {
+          response = await apiFetch('/api/generate', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Idempotency-Key': idempotencyKey,
+            },
+            body: JSON.stringify(payload),
+            signal: controller.signal, // Use the abort signal for the initial request
+          });
+        } catch (error) {
+          // The request may or may not have reached us; the key makes sending it again safe
+          if (!(error instanceof TypeError) || attempt >= MAX_TRANSIENT_RETRIES) throw error;
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        setStatus(Status.FAILED);
-        throw new Error(errorData.error || 'Failed to generate image');
-      }
+          setIsRetrying(true);
+          await delay(POLL_INTERVAL_MS, controller.signal);
+          continue;
+        }
 
-      const task = (await response.json()) as Task;
+        if (response.ok) {
+          task = (await response.json()) as Task;
+          break;
+        }
+
+        const requestError = await readApiError(response, 'Failed to generate image');
+        if (!isTransient(requestError) || attempt >= MAX_TRANSIENT_RETRIES) {
+          throw requestError;
+        }
+
+        // The service is busy; wait as advised and submit again
+        setIsRetrying(true);
+        await delay(requestError.retryAfterMs ?? POLL_INTERVAL_MS, controller.signal);
+      }
+      setIsRetrying(false);
       setCurrentTaskId(task.id);
 
-      // Now use the same controller for polling
-      const results = await pollForCompletion(task.id, setStatus, controller.signal);
+      // A cached result is complete already, there is nothing to wait for
+      if (task.status === 'SUCCEEDED' && task.output) {
+        setStatus(Status.SUCCEEDED);
+        setResults(task.output);
+        return { taskId: task.id, results: task.output };
+      }
+
+      // Now use the same controller while waiting for the result
+      const results = await waitForCompletion(
+        task.id,
+        { setStatus, setProgress, setIsRetrying },
+        controller.signal
+      );
 
       setResults(results);
-      return results;
+      return { taskId: task.id, results };
     } catch (error) {
+      setIsRetrying(false);
+
       // Check if the error was due to an abort
       if (error instanceof DOMException && error.name === 'AbortError') {
         console.log('Request was aborted');
@@ -92,8 +177,13 @@ export function useTextToImage() {
       } else {
         console.error('Error generating image:', error);
         setStatus(Status.FAILED);
+        setError(
+          error instanceof ApiRequestError
+            ? { code: error.code, message: error.message, retryAfterMs: error.retryAfterMs }
+            : { code: ErrorCode.INTERNAL_ERROR, message: 'Failed to generate image' }
+        );
       }
-      return [];
+      return { taskId: null, results: [] };
     }
   };
 
@@ -118,7 +208,7 @@ export function useTextToImage() {
         abortControllerRef.current = null;
       }
 
-      const response = await fetch(`/api/tasks/${currentTaskId}`, {
+      const response = await apiFetch(`/api/tasks/${currentTaskId}`, {
         method: 'DELETE',
       });
 
@@ -152,6 +242,8 @@ export function useTextToImage() {
     setResults([]);
     setStatus(Status.IDLE);
     setCurrentTaskId(null);
+    setError(null);
+    setProgress(null);
 
     // Abort any ongoing polling
     if (abortControllerRef.current) {
@@ -163,7 +255,10 @@ export function useTextToImage() {
   return {
     status,
     isLoading,
+    isRetrying,
+    progress,
     results,
+    error,
     generateImage,
     cancelTask,
     resetResults,
@@ -171,14 +266,115 @@ export function useTextToImage() {
   };
 }
 
+/**
+ * Wait for a task to finish, preferring the server-sent event stream and
+ * falling back to polling when EventSource is unavailable or the stream fails
+ */
+async function waitForCompletion(
+  taskId: string,
+  handlers: ProgressHandlers,
+  signal?: AbortSignal
+): Promise<string[]> {
+  if (typeof EventSource === 'undefined') {
+    return pollForCompletion(taskId, handlers, signal);
+  }
+
+  try {
+    return await streamTaskEvents(taskId, handlers, signal);
+  } catch (error) {
+    if (error instanceof EventStreamUnavailableError) {
+      console.log('Task event stream unavailable, falling back to polling');
+      return pollForCompletion(taskId, handlers, signal);
+    }
+    throw error;
+  }
+}
+
+class EventStreamUnavailableError extends Error {}
+
+// Why a task ended without a result: it failed, or was cancelled elsewhere
+function toTaskEndError({ status, failure }: { status: string; failure?: string }) {
+  return status === 'CANCELLED'
+    ? new ApiRequestError(ErrorCode.TASK_CANCELLED, 'Task was cancelled')
+    : new ApiRequestError(ErrorCode.TASK_FAILED, failure || 'Task failed');
+}
+
+function toStatus(taskStatus: string) {
+  return taskStatus === 'PENDING' || taskStatus === 'THROTTLED' ? Status.PENDING : Status.RUNNING;
+}
+
+function streamTaskEvents(
+  taskId: string,
+  { setStatus, setProgress, setIsRetrying }: ProgressHandlers,
+  signal?: AbortSignal
+) {
+  return new Promise<string[]>((resolve, reject) => {
+    const source = new EventSource(`/api/tasks/${taskId}/events`);
+
+    const finish = (settle: () => void) => {
+      source.close();
+      signal?.removeEventListener('abort', onAbort);
+      settle();
+    };
+
+    const onAbort = () => {
+      console.log('Task event stream aborted');
+      finish(() => resolve([]));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    source.addEventListener('status', event => {
+      const data = JSON.parse((event as MessageEvent).data);
+      setIsRetrying(false);
+
+      // A success is reported with its output in an event of its own
+      if (data.status === 'SUCCEEDED') return;
+
+      if (isTerminalStatus(data.status)) {
+        setStatus(Status.FAILED);
+        finish(() => reject(toTaskEndError(data)));
+      } else {
+        setStatus(toStatus(data.status));
+        setProgress(typeof data.progress === 'number' ? data.progress : null);
+      }
+    });
+
+    source.addEventListener('output', event => {
+      const { output } = JSON.parse((event as MessageEvent).data);
+      setStatus(Status.SUCCEEDED);
+      finish(() => resolve(output));
+    });
+
+    source.addEventListener('api_error', event => {
+      const body = JSON.parse((event as MessageEvent).data) as ApiErrorBody;
+
+      // Transient upstream trouble: the server keeps polling for us
+      if (body.retryable) {
+        setIsRetrying(true);
+        return;
+      }
+      finish(() => reject(new ApiRequestError(body.code, body.error)));
+    });
+
+    // EventSource reconnects on its own unless the connection was refused outright
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        finish(() => reject(new EventStreamUnavailableError('Task event stream closed')));
+      }
+    };
+  });
+}
+
 async function pollForCompletion(
   taskId: string,
-  setStatus: (status: Status) => void,
+  { setStatus, setProgress, setIsRetrying }: ProgressHandlers,
   signal?: AbortSignal
 ) {
   // Set status to RUNNING immediately when polling starts
   setStatus(Status.RUNNING);
 
+  let transientFailures = 0;
+
   while (true) {
     // Check if polling has been aborted
     if (signal?.aborted) {
@@ -187,41 +383,61 @@ async function pollForCompletion(
     }
 
     try {
-      const response = await fetch(`/api/tasks/${taskId}`);
+      const response = await apiFetch(`/api/tasks/${taskId}`);
+      if (!response.ok) {
+        const requestError = await readApiError(response, 'Failed to fetch task status');
+
+        // The task keeps running upstream while the service is busy, so keep waiting
+        if (isTransient(requestError) && transientFailures < MAX_TRANSIENT_RETRIES) {
+          transientFailures++;
+          setIsRetrying(true);
+          await waitOrAbort(Math.max(requestError.retryAfterMs ?? 0, POLL_INTERVAL_MS), signal);
+          continue;
+        }
+        throw requestError;
+      }
+
+      transientFailures = 0;
+      setIsRetrying(false);
+
       const data = await response.json();
+      // Cancelled by the user while the request was under way
+      if (signal?.aborted) return [];
 
       if (data.status === 'SUCCEEDED') {
         setStatus(Status.SUCCEEDED);
         return data.output;
-      } else if (data.status === 'FAILED') {
+      } else if (isTerminalStatus(data.status)) {
+        // Every other terminal status ends the task without a result
         setStatus(Status.FAILED);
-        throw new Error(data.error || 'Task failed');
+        throw toTaskEndError(data);
       } else {
         // Task is still processing, wait before checking again
         setStatus(Status.RUNNING);
-
-        // Use a delay that can be interrupted by an abort signal
-        try {
-          await new Promise((resolve, reject) => {
-            const timeout = setTimeout(resolve, 2500);
-
-            if (signal) {
-              signal.addEventListener('abort', () => {
-                clearTimeout(timeout);
-                reject(new Error('Polling aborted'));
-              });
-            }
-          });
-        } catch (error) {
-          // If the promise was rejected due to an abort, break the polling loop
-          console.log('Polling delay aborted');
-          return [];
-        }
+        setProgress(typeof data.progress === 'number' ? data.progress : null);
+        await waitOrAbort(POLL_INTERVAL_MS, signal);
       }
     } catch (error) {
+      if (error instanceof PollingAbortedError) {
+        // If the wait was interrupted by an abort, break the polling loop
+        console.log('Polling delay aborted');
+        return [];
+      }
+
       console.error('Error polling for task completion:', error);
       setStatus(Status.FAILED);
       throw error;
     }
   }
 }
+
+class PollingAbortedError extends Error {}
+
+// Use a delay that can be interrupted by an abort signal
+async function waitOrAbort(ms: number, signal?: AbortSignal) {
+  try {
+    await delay(ms, signal);
+  } catch {
+    throw new PollingAbortedError('Polling aborted');
+  }
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type ZoomPan = {
+  scale: number;
+  // Offset of the image centre in pixels
+  x: number;
+  y: number;
+};
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+const ZOOM_STEP = 1.25;
+// Fraction of the view an arrow key pans by
+const PAN_STEP = 0.1;
+
+const INITIAL: ZoomPan = { scale: 1, x: 0, y: 0 };
+
+/**
+ * Keep the zoomed image covering the whole view, so no empty edge shows
+ */
+function clamp({ scale, x, y }: ZoomPan, width: number, height: number): ZoomPan {
+  const boundedScale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+  const maxX = (width * (boundedScale - 1)) / 2;
+  const maxY = (height * (boundedScale - 1)) / 2;
+
+  return {
+    scale: boundedScale,
+    x: Math.min(maxX, Math.max(-maxX, x)),
+    y: Math.min(maxY, Math.max(-maxY, y)),
+  };
+}
+
+/**
+ * Zoom and pan shared by every view the handlers are attached to, so images of the
+ * same size stay aligned. Zoom with the wheel, the buttons or +/-, pan by dragging
+ * (mouse or touch) or with the arrow keys, and reset with 0.
+ */
+export function useZoomPan() {
+  const [view, setView] = useState<ZoomPan>(INITIAL);
+  // Element whose size bounds panning; every view is expected to share it
+  const viewRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<{ pointerId: number; x: number; y: number } | null>(null);
+
+  const update = useCallback((change: (current: ZoomPan) => ZoomPan) => {
+    setView(current => {
+      const rect = viewRef.current?.getBoundingClientRect();
+      return rect ? clamp(change(current), rect.width, rect.height) : current;
+    });
+  }, []);
+
+  const zoomBy = useCallback(
+    (factor: number) => {
+      update(current => {
+        const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, current.scale * factor));
+        // Keep the point at the centre of the view where it is
+        const ratio = scale / current.scale;
+        return { scale, x: current.x * ratio, y: current.y * ratio };
+      });
+    },
+    [update]
+  );
+
+  const zoomIn = useCallback(() => zoomBy(ZOOM_STEP), [zoomBy]);
+  const zoomOut = useCallback(() => zoomBy(1 / ZOOM_STEP), [zoomBy]);
+  const reset = useCallback(() => setView(INITIAL), []);
+
+  // React's wheel listeners are passive, so the page would scroll while zooming
+  const wheelTargetRef = useRef<HTMLDivElement | null>(null);
+  useEffect(() => {
+    const target = wheelTargetRef.current;
+    if (!target) return;
+
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      zoomBy(event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP);
+    };
+    target.addEventListener('wheel', onWheel, { passive: false });
+    return () => target.removeEventListener('wheel', onWheel);
+  }, [zoomBy]);
+
+  const onPointerDown = (event: React.PointerEvent<HTMLElement>) => {
+    if (view.scale === 1) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { pointerId: event.pointerId, x: event.clientX, y: event.clientY };
+  };
+
+  const onPointerMove = (event: React.PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+
+    const dx = event.clientX - drag.x;
+    const dy = event.clientY - drag.y;
+    dragRef.current = { ...drag, x: event.clientX, y: event.clientY };
+    update(current => ({ ...current, x: current.x + dx, y: current.y + dy }));
+  };
+
+  const onPointerUp = (event: React.PointerEvent<HTMLElement>) => {
+    if (dragRef.current?.pointerId === event.pointerId) {
+      dragRef.current = null;
+    }
+  };
+
+  const onKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+    const rect = viewRef.current?.getBoundingClientRect();
+    const stepX = (rect?.width ?? 0) * PAN_STEP;
+    const stepY = (rect?.height ?? 0) * PAN_STEP;
+
+    const actions: Record<string, () => void> = {
+      '+': zoomIn,
+      '=': zoomIn,
+      '-': zoomOut,
+      '0': reset,
+      // Arrow keys move the view, so the image moves the other way
+      ArrowLeft: () => update(current => ({ ...current, x: current.x + stepX })),
+      ArrowRight: () => update(current => ({ ...current, x: current.x - stepX })),
+      ArrowUp: () => update(current => ({ ...current, y: current.y + stepY })),
+      ArrowDown: () => update(current => ({ ...current, y: current.y - stepY })),
+    };
+
+    const action = actions[event.key];
+    if (action) {
+      event.preventDefault();
+      action();
+    }
+  };
+
+  return {
+    view,
+    viewRef,
+    wheelTargetRef,
+    zoomIn,
+    zoomOut,
+    reset,
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: onPointerUp,
+      onKeyDown,
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import { ErrorCode, type ApiErrorBody } from '@/lib/error-codes';
+
+/**
+ * Error thrown for a failed API call, keeping the machine-readable code from the response.
+ * `retryAfterMs` is set when the server reported a transient failure worth retrying.
+ */
+export class ApiRequestError extends Error {
+  readonly code: ErrorCode;
+  readonly retryAfterMs?: number;
+
+  constructor(code: ErrorCode, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export async function readApiError(response: Response, fallbackMessage: string) {
+  try {
+    const body = (await response.json()) as Partial<ApiErrorBody>;
+    return new ApiRequestError(
+      body.code ?? ErrorCode.INTERNAL_ERROR,
+      body.error || fallbackMessage,
+      body.retryable ? (body.retryAfter ?? 0) * 1000 : undefined
+    );
+  } catch {
+    return new ApiRequestError(ErrorCode.INTERNAL_ERROR, fallbackMessage);
+  }
+}
+
+/**
+ * Wait for the given time, rejecting early if the signal is aborted
+ */
+export function delay(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(resolve, ms);
+
+    if (signal) {
+      signal.addEventListener('abort', () => {
+        clearTimeout(timeout);
+        reject(new DOMException('Aborted', 'AbortError'));
+      });
+    }
+  });
+}
+
+/**
+ * Encode a file as a data URI, the form the API accepts images in
+ */
+export function readFileAsDataUrl(file: File) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = error => reject(error);
+  });
+}
+
+let sessionRequest: Promise<void> | null = null;
+
+/**
+ * Start the anonymous session the app authenticates with, sharing one request between callers
+ */
+function startSession() {
+  sessionRequest ??= fetch('/api/session', { method: 'POST' })
+    .then(async response => {
+      if (!response.ok) throw await readApiError(response, 'Failed to start a session');
+    })
+    .finally(() => {
+      sessionRequest = null;
+    });
+  return sessionRequest;
+}
+
+/**
+ * `fetch` for our API routes. When the session is missing or has expired, a new one
+ * is started and the request is sent again.
+ */
+export async function apiFetch(input: string, init?: RequestInit) {
+  const response = await fetch(input, init);
+  if (response.status !== 401) return response;
+
+  await startSession();
+  return fetch(input, init);
+}
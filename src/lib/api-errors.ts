@@ -0,0 +1,126 @@
+import { ErrorCode, type ApiErrorBody } from '@/lib/error-codes';
+import {
+  RunwayApiError,
+  RunwayAuthError,
+  RunwayNotFoundError,
+  RunwayParseError,
+  RunwayRateLimitError,
+  RunwayUpstreamError,
+  RunwayValidationError,
+} from '@/lib/runway-errors';
+import { NextResponse } from 'next/server';
+
+// Suggested wait for retryable upstream failures that did not come with a Retry-After
+const DEFAULT_RETRY_AFTER_MS = 5000;
+
+/**
+ * Error raised by our own API code, carrying the HTTP status and code to respond with.
+ * Errors with `retryAfterMs` are transient: the caller may repeat the request after that delay.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ErrorCode;
+  readonly details?: unknown;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    status: number,
+    code: ErrorCode,
+    message: string,
+    details?: unknown,
+    retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Translate an upstream Runway failure into the error we expose to our callers
+ */
+function fromRunwayError(error: RunwayApiError): ApiError {
+  if (error instanceof RunwayNotFoundError) {
+    return new ApiError(404, ErrorCode.TASK_NOT_FOUND, 'Task not found or already processed.');
+  }
+  if (error instanceof RunwayValidationError) {
+    return new ApiError(422, ErrorCode.UPSTREAM_VALIDATION_FAILED, error.message, error.details);
+  }
+  if (error instanceof RunwayRateLimitError) {
+    return new ApiError(
+      429,
+      ErrorCode.UPSTREAM_RATE_LIMITED,
+      'The generation service is busy, please try again shortly.',
+      undefined,
+      error.retryAfterMs ?? DEFAULT_RETRY_AFTER_MS
+    );
+  }
+  if (error instanceof RunwayAuthError) {
+    // Our server credentials are wrong; this is not the caller's fault
+    return new ApiError(
+      502,
+      ErrorCode.UPSTREAM_AUTH_FAILED,
+      'The generation service rejected our credentials.'
+    );
+  }
+  if (error instanceof RunwayUpstreamError) {
+    return new ApiError(
+      503,
+      ErrorCode.UPSTREAM_UNAVAILABLE,
+      'The generation service is currently unavailable.',
+      undefined,
+      error.retryable ? (error.retryAfterMs ?? DEFAULT_RETRY_AFTER_MS) : undefined
+    );
+  }
+  if (error instanceof RunwayParseError) {
+    return new ApiError(
+      502,
+      ErrorCode.UPSTREAM_BAD_RESPONSE,
+      'The generation service returned an unexpected response.'
+    );
+  }
+  return new ApiError(502, ErrorCode.UPSTREAM_BAD_RESPONSE, error.message, error.details);
+}
+
+/**
+ * Normalize any thrown value into an ApiError
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (error instanceof RunwayApiError) return fromRunwayError(error);
+  return new ApiError(500, ErrorCode.INTERNAL_ERROR, 'Internal server error');
+}
+
+/**
+ * Serialize an error into the body shape shared by every API error response
+ */
+export function toErrorBody({ code, message, details, retryAfterMs }: ApiError): ApiErrorBody {
+  const body: ApiErrorBody = { error: message, code, retryable: retryAfterMs !== undefined };
+
+  if (details !== undefined) {
+    body.details = details;
+  }
+  if (retryAfterMs !== undefined) {
+    body.retryAfter = Math.ceil(retryAfterMs / 1000);
+  }
+
+  return body;
+}
+
+/**
+ * Build the JSON response for a thrown error
+ */
+export function errorResponse(error: unknown): NextResponse<ApiErrorBody> {
+  const apiError = toApiError(error);
+  const body = toErrorBody(apiError);
+  const headers = new Headers();
+
+  if (body.retryAfter !== undefined) {
+    headers.set('Retry-After', String(body.retryAfter));
+  }
+
+  return NextResponse.json(body, { status: apiError.status, headers });
+}
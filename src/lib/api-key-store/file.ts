@@ -0,0 +1,43 @@
+import { createJsonFile } from '@/lib/json-file';
+import type { ApiKeyRecord, ApiKeyStore } from './types';
+
+type ApiKeyFileData = {
+  keys: Record<string, ApiKeyRecord>;
+};
+
+/**
+ * Key store persisted to a JSON file, so issued keys survive restarts
+ */
+export function createFileApiKeyStore(filePath: string): ApiKeyStore {
+  const file = createJsonFile<ApiKeyFileData>(filePath, () => ({ keys: {} }));
+
+  return {
+    async create(record) {
+      await file.update(data => {
+        data.keys[record.id] = structuredClone(record);
+      });
+    },
+
+    async get(id) {
+      const { keys } = await file.read();
+      return keys[id] ? structuredClone(keys[id]) : null;
+    },
+
+    async list() {
+      const { keys } = await file.read();
+      return Object.values(keys)
+        .map(record => structuredClone(record))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    async update(id, patch) {
+      return file.update(data => {
+        const record = data.keys[id];
+        if (!record) return null;
+
+        data.keys[id] = { ...record, ...patch, id };
+        return structuredClone(data.keys[id]);
+      });
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import { getDataDir } from '@/lib/json-file';
+import path from 'path';
+import { createFileApiKeyStore } from './file';
+import { createMemoryApiKeyStore } from './memory';
+import type { ApiKeyStore } from './types';
+
+export * from './types';
+
+// Keep the store on globalThis so it survives module reloads in development
+const globalForStore = globalThis as unknown as { apiKeyStore?: ApiKeyStore };
+
+/**
+ * Client key store, kept alongside the task registry: in memory when `TASK_STORE=memory`,
+ * otherwise in `api-keys.json` in the data directory
+ */
+export function getApiKeyStore(): ApiKeyStore {
+  if (!globalForStore.apiKeyStore) {
+    const kind = (process.env.TASK_STORE || 'file').toLowerCase();
+
+    globalForStore.apiKeyStore =
+      kind === 'memory'
+        ? createMemoryApiKeyStore()
+        : createFileApiKeyStore(path.join(getDataDir(), 'api-keys.json'));
+  }
+
+  return globalForStore.apiKeyStore;
+}
@@ -0,0 +1,34 @@
+import type { ApiKeyRecord, ApiKeyStore } from './types';
+
+/**
+ * Key store kept in process memory. Keys are lost on restart.
+ */
+export function createMemoryApiKeyStore(): ApiKeyStore {
+  const keys = new Map<string, ApiKeyRecord>();
+
+  return {
+    async create(record) {
+      keys.set(record.id, structuredClone(record));
+    },
+
+    async get(id) {
+      const record = keys.get(id);
+      return record ? structuredClone(record) : null;
+    },
+
+    async list() {
+      return Array.from(keys.values(), record => structuredClone(record)).sort((a, b) =>
+        b.createdAt.localeCompare(a.createdAt)
+      );
+    },
+
+    async update(id, patch) {
+      const record = keys.get(id);
+      if (!record) return null;
+
+      const updated = { ...record, ...patch, id };
+      keys.set(id, updated);
+      return structuredClone(updated);
+    },
+  };
+}
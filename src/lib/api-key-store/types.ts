@@ -0,0 +1,24 @@
+import type { Scope } from '@/lib/scopes';
+
+/**
+ * An issued client key. Only a hash of the secret is kept.
+ */
+export type ApiKeyRecord = {
+  id: string;
+  name: string;
+  // SHA-256 of the secret part of the key
+  hash: string;
+  scopes: Scope[];
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+};
+
+export type ApiKeyStore = {
+  create(record: ApiKeyRecord): Promise<void>;
+  get(id: string): Promise<ApiKeyRecord | null>;
+  /** Every key, newest first */
+  list(): Promise<ApiKeyRecord[]>;
+  /** Merge a patch into an existing key, returning the updated key or null if unknown */
+  update(id: string, patch: Partial<Omit<ApiKeyRecord, 'id'>>): Promise<ApiKeyRecord | null>;
+};
@@ -0,0 +1,73 @@
+import { getApiKeyStore, type ApiKeyRecord } from '@/lib/api-key-store';
+import type { Scope } from '@/lib/scopes';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+// Keys look like `hmk_<id>_<secret>`; the id locates the record, the secret is checked against its hash
+const KEY_PATTERN = /^hmk_([0-9a-f]{16})_([0-9a-f]{64})$/;
+// How stale `lastUsedAt` may get before it is written again
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+/**
+ * A key as shown to administrators, without its hash
+ */
+export type PublicApiKey = Omit<ApiKeyRecord, 'hash'>;
+
+function hashSecret(secret: string) {
+  return createHash('sha256').update(secret).digest();
+}
+
+export function toPublicApiKey(record: ApiKeyRecord): PublicApiKey {
+  const key: Partial<ApiKeyRecord> = { ...record };
+  delete key.hash;
+  return key as PublicApiKey;
+}
+
+/**
+ * Issue a new client key. The plaintext key is returned once and never stored.
+ */
+export async function issueApiKey(name: string, scopes: Scope[]) {
+  const id = randomBytes(8).toString('hex');
+  const secret = randomBytes(32).toString('hex');
+  const record: ApiKeyRecord = {
+    id,
+    name,
+    hash: hashSecret(secret).toString('hex'),
+    scopes,
+    createdAt: new Date().toISOString(),
+  };
+
+  await getApiKeyStore().create(record);
+
+  return { key: `hmk_${id}_${secret}`, apiKey: toPublicApiKey(record) };
+}
+
+/**
+ * Look up the active key matching a presented token, or null if it is unknown or revoked
+ */
+export async function verifyApiKey(token: string): Promise<ApiKeyRecord | null> {
+  const match = KEY_PATTERN.exec(token);
+  if (!match) return null;
+
+  const [, id, secret] = match;
+  const store = getApiKeyStore();
+  const record = await store.get(id);
+  if (!record || record.revokedAt) return null;
+
+  if (!timingSafeEqual(hashSecret(secret), Buffer.from(record.hash, 'hex'))) return null;
+
+  const now = Date.now();
+  if (!record.lastUsedAt || now - Date.parse(record.lastUsedAt) > LAST_USED_RESOLUTION_MS) {
+    store.update(id, { lastUsedAt: new Date(now).toISOString() }).catch(error => {
+      console.error(`Failed to update key ${id}:`, error);
+    });
+  }
+
+  return record;
+}
+
+/**
+ * Check a token against a key configured in plain text, such as `ADMIN_API_KEY`
+ */
+export function matchesSecret(token: string, secret: string) {
+  return timingSafeEqual(hashSecret(token), hashSecret(secret));
+}
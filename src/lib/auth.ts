@@ -0,0 +1,91 @@
+import { ApiError } from '@/lib/api-errors';
+import { matchesSecret, verifyApiKey } from '@/lib/api-keys';
+import { ErrorCode } from '@/lib/error-codes';
+import { SCOPES, type Scope } from '@/lib/scopes';
+import { anonymousSessionsEnabled, decodeSession, SESSION_COOKIE } from '@/lib/session';
+import type { NextRequest } from 'next/server';
+
+/**
+ * The authenticated caller of an API route. `id` is what the tasks and
+ * batches a caller creates are recorded as belonging to.
+ */
+export type Principal = {
+  id: string;
+  kind: 'admin' | 'key' | 'session';
+  scopes: Scope[];
+};
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+function isSameOrigin(req: NextRequest) {
+  const origin = req.headers.get('origin');
+  if (origin === null) return true;
+
+  try {
+    return new URL(origin).host === req.nextUrl.host;
+  } catch {
+    return false;
+  }
+}
+
+function unauthenticated(message: string) {
+  return new ApiError(401, ErrorCode.UNAUTHENTICATED, message);
+}
+
+/**
+ * Identify the caller from a bearer token (an issued client key or `ADMIN_API_KEY`)
+ * or, failing that, from the signed session cookie of the demo app
+ */
+export async function authenticate(req: NextRequest): Promise<Principal> {
+  const authorization = req.headers.get('authorization');
+
+  if (authorization !== null) {
+    const [scheme, token] = authorization.split(' ');
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      throw unauthenticated('Authorization must use the Bearer scheme');
+    }
+
+    const adminKey = process.env.ADMIN_API_KEY;
+    if (adminKey && matchesSecret(token, adminKey)) {
+      return { id: 'admin', kind: 'admin', scopes: [...SCOPES] };
+    }
+
+    const apiKey = await verifyApiKey(token);
+    if (!apiKey) {
+      throw unauthenticated('Invalid or revoked API key');
+    }
+    return { id: `key:${apiKey.id}`, kind: 'key', scopes: apiKey.scopes };
+  }
+
+  // Turning anonymous sessions off also ends the ones already handed out
+  const cookie = anonymousSessionsEnabled() ? req.cookies.get(SESSION_COOKIE)?.value : undefined;
+  const session = cookie ? decodeSession(cookie) : null;
+  if (!session) {
+    throw unauthenticated('Authentication required');
+  }
+
+  // Cookies are sent on cross-site requests too, so only accept changes from our own pages
+  if (!SAFE_METHODS.includes(req.method) && !isSameOrigin(req)) {
+    throw new ApiError(403, ErrorCode.FORBIDDEN, 'Cross-origin requests are not allowed');
+  }
+
+  return { id: `session:${session.id}`, kind: 'session', scopes: session.scopes };
+}
+
+export function hasScope(principal: Principal, scope: Scope) {
+  return principal.scopes.includes('admin') || principal.scopes.includes(scope);
+}
+
+export function requireScope(principal: Principal, scope: Scope) {
+  if (!hasScope(principal, scope)) {
+    throw new ApiError(403, ErrorCode.FORBIDDEN, `This credential lacks the "${scope}" scope`);
+  }
+}
+
+/**
+ * Whether the caller may see or act on something created by `owner`.
+ * Records without an owner predate authentication and are left to administrators.
+ */
+export function canAccess(principal: Principal, owner: string | undefined) {
+  return principal.scopes.includes('admin') || (owner !== undefined && owner === principal.id);
+}
@@ -0,0 +1,214 @@
+import { toApiError } from '@/lib/api-errors';
+import {
+  getBatchStore,
+  type BatchItem,
+  type BatchRecord,
+  type BatchStatus,
+} from '@/lib/batch-store';
+import { readNumberEnv } from '@/lib/env';
+import type { ApiErrorBody } from '@/lib/error-codes';
+import { buildTaskInput, type PreparedSelfie } from '@/lib/generation-input';
+import type { Hairstyle } from '@/lib/hairstyles';
+import { isTerminalStatus, type GenerationProvider } from '@/lib/providers';
+import { recordCreatedTask } from '@/lib/task-records';
+import type { TaskFaceAnalysis } from '@/lib/task-store';
+import { watchTask } from '@/lib/task-watcher';
+import { createMeteredTask } from '@/lib/usage';
+import { randomUUID } from 'crypto';
+import { setTimeout as sleep } from 'timers/promises';
+
+// Upstream tasks of one batch that may be in flight at the same time
+const BATCH_CONCURRENCY = Math.max(1, readNumberEnv('BATCH_CONCURRENCY', 2));
+// Submission attempts per item when the provider is busy
+const MAX_SUBMIT_ATTEMPTS = 3;
+
+export type BatchRequest = {
+  selfie: PreparedSelfie;
+  hairstyles: Hairstyle[];
+  prompt: string | null;
+  faceAnalysis: TaskFaceAnalysis | null;
+  // Caller the batch and its tasks belong to
+  owner: string;
+  // Gives back the quota of items that could not be submitted
+  refundQuota?: (count: number) => Promise<void>;
+};
+
+function isItemFinished(item: BatchItem) {
+  return item.status !== 'QUEUED' && isTerminalStatus(item.status);
+}
+
+/**
+ * Aggregate status of a batch, derived from its items
+ */
+export function getBatchStatus(items: BatchItem[]): BatchStatus {
+  if (!items.every(isItemFinished)) {
+    return items.every(item => item.status === 'QUEUED') ? 'PENDING' : 'RUNNING';
+  }
+
+  const succeeded = items.filter(item => item.status === 'SUCCEEDED').length;
+  if (succeeded === items.length) return 'SUCCEEDED';
+  if (succeeded > 0) return 'PARTIALLY_SUCCEEDED';
+  return items.every(item => item.status === 'CANCELLED') ? 'CANCELLED' : 'FAILED';
+}
+
+/**
+ * Create a batch and start working through it in the background.
+ * Returns the batch as first recorded, with every item queued.
+ */
+export async function startBatch(
+  provider: GenerationProvider,
+  request: BatchRequest
+): Promise<BatchRecord> {
+  const now = new Date().toISOString();
+  const batch: BatchRecord = {
+    id: randomUUID(),
+    provider: provider.name,
+    owner: request.owner,
+    status: 'PENDING',
+    items: request.hairstyles.map(hairstyle => ({ hairstyle: hairstyle.id, status: 'QUEUED' })),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await getBatchStore().save(batch);
+
+  runBatch(batch, provider, request).catch(error => {
+    console.error(`Batch ${batch.id} stopped unexpectedly:`, error);
+  });
+
+  return structuredClone(batch);
+}
+
+async function runBatch(
+  batch: BatchRecord,
+  provider: GenerationProvider,
+  { selfie, hairstyles, prompt, faceAnalysis, owner, refundQuota }: BatchRequest
+) {
+  const save = async () => {
+    const now = new Date().toISOString();
+    batch.status = getBatchStatus(batch.items);
+    batch.updatedAt = now;
+    if (batch.items.every(isItemFinished)) {
+      batch.completedAt ??= now;
+    }
+
+    try {
+      await getBatchStore().save(batch);
+    } catch (error) {
+      console.error(`Failed to update batch ${batch.id}:`, error);
+    }
+  };
+
+  const runItem = async (index: number) => {
+    const item = batch.items[index];
+    const hairstyle = hairstyles[index];
+    let submitted = false;
+
+    try {
+      const input = await buildTaskInput(selfie, hairstyle, prompt);
+      const { id: taskId } = await submitWithRetry(provider, () =>
+        createMeteredTask(provider, input, {
+          caller: owner,
+          hairstyle: hairstyle.id,
+          batchId: batch.id,
+        })
+      );
+      submitted = true;
+
+      await recordCreatedTask(taskId, provider.name, input, {
+        hairstyle: hairstyle.id,
+        inputImage: selfie.inputImage,
+        faceAnalysis: faceAnalysis ?? undefined,
+        batchId: batch.id,
+        owner,
+      });
+      Object.assign(item, { taskId, status: 'PENDING' });
+      await save();
+
+      await followTask(taskId, provider, item, save);
+    } catch (error) {
+      const apiError = toApiError(error);
+      Object.assign(item, {
+        status: 'FAILED',
+        failure: apiError.message,
+        failureCode: apiError.code,
+      });
+      await save();
+
+      if (!submitted) {
+        await refundQuota?.(1).catch(refundError => {
+          console.error(`Failed to refund quota of batch ${batch.id}:`, refundError);
+        });
+      }
+    }
+  };
+
+  // A fixed number of workers take items off the queue, so at most
+  // BATCH_CONCURRENCY upstream tasks of this batch are in flight at once
+  let next = 0;
+  const worker = async () => {
+    while (next < batch.items.length) {
+      await runItem(next++);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(BATCH_CONCURRENCY, batch.items.length) }, worker)
+  );
+}
+
+async function submitWithRetry<T>(provider: GenerationProvider, submit: () => Promise<T>) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await submit();
+    } catch (error) {
+      const { retryAfterMs } = toApiError(error);
+      if (retryAfterMs === undefined || attempt >= MAX_SUBMIT_ATTEMPTS) throw error;
+
+      console.warn(`${provider.name} is busy, resubmitting batch item in ${retryAfterMs}ms`);
+      await sleep(retryAfterMs);
+    }
+  }
+}
+
+/**
+ * Mirror a task's progress into its batch item until the task finishes,
+ * sharing the task's upstream poller with any other subscribers
+ */
+function followTask(
+  taskId: string,
+  provider: GenerationProvider,
+  item: BatchItem,
+  save: () => Promise<void>
+) {
+  return new Promise<void>(resolve => {
+    let lastError: ApiErrorBody | null = null;
+
+    watchTask(taskId, provider, {
+      send(event) {
+        if (event.type === 'status') {
+          const { status, progress, failure, failureCode } = event.data;
+          Object.assign(item, { status, progress, failure, failureCode });
+        } else if (event.type === 'output') {
+          item.output = event.data.output;
+        } else {
+          lastError = event.data;
+          return;
+        }
+        save();
+      },
+
+      close() {
+        // The watcher gave up on a task that never finished
+        if (!isItemFinished(item)) {
+          Object.assign(item, {
+            status: 'FAILED',
+            failure: lastError?.error ?? 'Lost track of the task',
+            failureCode: lastError?.code,
+          });
+        }
+        save().then(resolve);
+      },
+    });
+  });
+}
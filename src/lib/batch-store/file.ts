@@ -0,0 +1,26 @@
+import { createJsonFile } from '@/lib/json-file';
+import type { BatchRecord, BatchStore } from './types';
+
+type BatchFileData = {
+  batches: Record<string, BatchRecord>;
+};
+
+/**
+ * Batch store persisted to a JSON file, so batches survive restarts
+ */
+export function createFileBatchStore(filePath: string): BatchStore {
+  const file = createJsonFile<BatchFileData>(filePath, () => ({ batches: {} }));
+
+  return {
+    async save(batch) {
+      await file.update(data => {
+        data.batches[batch.id] = structuredClone(batch);
+      });
+    },
+
+    async get(id) {
+      const { batches } = await file.read();
+      return batches[id] ? structuredClone(batches[id]) : null;
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import { getDataDir } from '@/lib/json-file';
+import path from 'path';
+import { createFileBatchStore } from './file';
+import { createMemoryBatchStore } from './memory';
+import type { BatchStore } from './types';
+
+export * from './types';
+
+// Keep the store on globalThis so it survives module reloads in development
+const globalForStore = globalThis as unknown as { batchStore?: BatchStore };
+
+/**
+ * Batch store, kept alongside the task registry: in memory when `TASK_STORE=memory`,
+ * otherwise in `batches.json` in the data directory
+ */
+export function getBatchStore(): BatchStore {
+  if (!globalForStore.batchStore) {
+    const kind = (process.env.TASK_STORE || 'file').toLowerCase();
+
+    globalForStore.batchStore =
+      kind === 'memory'
+        ? createMemoryBatchStore()
+        : createFileBatchStore(path.join(getDataDir(), 'batches.json'));
+  }
+
+  return globalForStore.batchStore;
+}
@@ -0,0 +1,19 @@
+import type { BatchRecord, BatchStore } from './types';
+
+/**
+ * Batch store kept in process memory. Batches are lost on restart.
+ */
+export function createMemoryBatchStore(): BatchStore {
+  const batches = new Map<string, BatchRecord>();
+
+  return {
+    async save(batch) {
+      batches.set(batch.id, structuredClone(batch));
+    },
+
+    async get(id) {
+      const batch = batches.get(id);
+      return batch ? structuredClone(batch) : null;
+    },
+  };
+}
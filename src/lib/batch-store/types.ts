@@ -0,0 +1,45 @@
+import type { TaskStatus } from '@/lib/providers';
+
+/**
+ * Items wait in the queue until a slot frees up, then follow their task's status
+ */
+export type BatchItemStatus = 'QUEUED' | TaskStatus;
+
+export type BatchItem = {
+  hairstyle: string;
+  status: BatchItemStatus;
+  taskId?: string;
+  progress?: number;
+  output?: string[];
+  failure?: string;
+  failureCode?: string;
+};
+
+export type BatchStatus =
+  | 'PENDING'
+  | 'RUNNING'
+  | 'SUCCEEDED'
+  | 'PARTIALLY_SUCCEEDED'
+  | 'FAILED'
+  | 'CANCELLED';
+
+/**
+ * A group of generation tasks sharing one selfie, one per hairstyle
+ */
+export type BatchRecord = {
+  id: string;
+  provider: string;
+  // Caller that created the batch, see `Principal.id`
+  owner: string;
+  status: BatchStatus;
+  items: BatchItem[];
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+};
+
+export type BatchStore = {
+  /** Insert or replace a batch */
+  save(batch: BatchRecord): Promise<void>;
+  get(id: string): Promise<BatchRecord | null>;
+};
@@ -0,0 +1,76 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+type CircuitBreakerOptions = {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a trial request is let through
+  resetTimeoutMs: number;
+};
+
+export type CircuitBreaker = {
+  readonly state: CircuitState;
+  /** Whether a request may be sent now. In half-open state only one trial request is allowed. */
+  canRequest(): boolean;
+  /** Milliseconds until the circuit will let a trial request through */
+  retryAfterMs(): number;
+  recordSuccess(): void;
+  recordFailure(): void;
+};
+
+/**
+ * Track consecutive upstream failures and short-circuit requests while the
+ * upstream looks down, instead of piling more requests onto it
+ */
+export function createCircuitBreaker({
+  failureThreshold,
+  resetTimeoutMs,
+}: CircuitBreakerOptions): CircuitBreaker {
+  let state: CircuitState = 'closed';
+  let failures = 0;
+  let openedAt = 0;
+  let trialStartedAt: number | null = null;
+
+  return {
+    get state() {
+      if (state === 'open' && Date.now() - openedAt >= resetTimeoutMs) {
+        state = 'half-open';
+      }
+      return state;
+    },
+
+    canRequest() {
+      const current = this.state;
+
+      if (current === 'closed') return true;
+      // A trial that never reported back (e.g. aborted by its caller) expires after the reset timeout
+      const trialExpired = trialStartedAt === null || Date.now() - trialStartedAt >= resetTimeoutMs;
+
+      if (current === 'half-open' && trialExpired) {
+        trialStartedAt = Date.now();
+        return true;
+      }
+      return false;
+    },
+
+    retryAfterMs() {
+      if (state !== 'open') return 0;
+      return Math.max(0, openedAt + resetTimeoutMs - Date.now());
+    },
+
+    recordSuccess() {
+      state = 'closed';
+      failures = 0;
+      trialStartedAt = null;
+    },
+
+    recordFailure() {
+      failures += 1;
+      trialStartedAt = null;
+
+      if (state === 'half-open' || failures >= failureThreshold) {
+        state = 'open';
+        openedAt = Date.now();
+      }
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import { createJsonFile } from '@/lib/json-file';
+import type { Counter, CounterStore } from './types';
+
+type CounterFileData = {
+  counters: Record<string, Counter>;
+};
+
+/**
+ * Counter store persisted to a JSON file, so quotas survive restarts.
+ * Expired counters are dropped whenever the file is written.
+ */
+export function createFileCounterStore(filePath: string): CounterStore {
+  const file = createJsonFile<CounterFileData>(filePath, () => ({ counters: {} }));
+
+  return {
+    async update(key, apply) {
+      return file.update(data => {
+        const now = Date.now();
+        for (const [name, counter] of Object.entries(data.counters)) {
+          if (counter.expiresAt <= now) delete data.counters[name];
+        }
+
+        const { counter, result } = apply(data.counters[key]);
+        if (counter) data.counters[key] = counter;
+        return result;
+      });
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import { getDataDir } from '@/lib/json-file';
+import path from 'path';
+import { createFileCounterStore } from './file';
+import { createMemoryCounterStore } from './memory';
+import type { CounterStore } from './types';
+
+export * from './types';
+
+// Keep the store on globalThis so it survives module reloads in development
+const globalForStore = globalThis as unknown as { counterStore?: CounterStore };
+
+/**
+ * Counter store for rate limits and quotas selected by `RATE_LIMIT_STORE` ("memory" or "file").
+ * Defaults to the kind of `TASK_STORE`; the file store writes `counters.json` in the data directory.
+ */
+export function getCounterStore(): CounterStore {
+  if (!globalForStore.counterStore) {
+    const kind = (process.env.RATE_LIMIT_STORE || process.env.TASK_STORE || 'file').toLowerCase();
+
+    if (kind === 'memory') {
+      globalForStore.counterStore = createMemoryCounterStore();
+    } else if (kind === 'file') {
+      globalForStore.counterStore = createFileCounterStore(
+        path.join(getDataDir(), 'counters.json')
+      );
+    } else {
+      throw new Error(`Unknown RATE_LIMIT_STORE "${kind}", expected "memory" or "file"`);
+    }
+  }
+
+  return globalForStore.counterStore;
+}
@@ -0,0 +1,30 @@
+import type { Counter, CounterStore } from './types';
+
+// Expired counters are swept once this many more have been written
+const SWEEP_INTERVAL = 1000;
+
+/**
+ * Counter store kept in process memory. Counters are lost on restart and not
+ * shared between server instances.
+ */
+export function createMemoryCounterStore(): CounterStore {
+  const counters = new Map<string, Counter>();
+  let writes = 0;
+
+  return {
+    async update(key, apply) {
+      const now = Date.now();
+      const current = counters.get(key);
+      const { counter, result } = apply(current && current.expiresAt > now ? current : undefined);
+      if (counter) counters.set(key, counter);
+
+      if (++writes % SWEEP_INTERVAL === 0) {
+        counters.forEach((value, name) => {
+          if (value.expiresAt <= now) counters.delete(name);
+        });
+      }
+
+      return result;
+    },
+  };
+}
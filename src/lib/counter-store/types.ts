@@ -0,0 +1,21 @@
+/**
+ * A numeric counter with the time it was last written and when it can be forgotten.
+ * Times are in milliseconds since the epoch.
+ */
+export type Counter = {
+  value: number;
+  updatedAt: number;
+  expiresAt: number;
+};
+
+export type CounterStore = {
+  /**
+   * Read a counter and replace it in one step, so concurrent requests cannot both
+   * take the last unit. Expired counters read as undefined; leave out `counter` to
+   * keep the current one.
+   */
+  update<R>(
+    key: string,
+    apply: (counter: Counter | undefined) => { counter?: Counter; result: R }
+  ): Promise<R>;
+};
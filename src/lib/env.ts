@@ -0,0 +1,10 @@
+/**
+ * Read a non-negative number from an environment variable, falling back when unset or invalid
+ */
+export function readNumberEnv(variable: string, fallback: number): number {
+  const value = process.env[variable];
+  if (!value) return fallback;
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
@@ -0,0 +1,44 @@
+/**
+ * Machine-readable error codes returned in the `code` field of API error responses.
+ * Shared with the frontend so it can branch on failures without parsing messages.
+ */
+export enum ErrorCode {
+  INVALID_REQUEST = 'invalid_request',
+  INVALID_JSON = 'invalid_json',
+  PAYLOAD_TOO_LARGE = 'payload_too_large',
+  UNSUPPORTED_MEDIA_TYPE = 'unsupported_media_type',
+  UNAUTHENTICATED = 'unauthenticated',
+  FORBIDDEN = 'forbidden',
+  RATE_LIMITED = 'rate_limited',
+  QUOTA_EXCEEDED = 'quota_exceeded',
+  BUDGET_EXHAUSTED = 'budget_exhausted',
+  IDEMPOTENCY_KEY_REUSED = 'idempotency_key_reused',
+  IDEMPOTENCY_KEY_IN_USE = 'idempotency_key_in_use',
+  TASK_NOT_FOUND = 'task_not_found',
+  UNKNOWN_HAIRSTYLE = 'unknown_hairstyle',
+  BATCH_NOT_FOUND = 'batch_not_found',
+  API_KEY_NOT_FOUND = 'api_key_not_found',
+  RESULT_NOT_FOUND = 'result_not_found',
+  SHARE_NOT_FOUND = 'share_not_found',
+  TASK_FAILED = 'task_failed',
+  TASK_CANCELLED = 'task_cancelled',
+  PROVIDER_NOT_CONFIGURED = 'provider_not_configured',
+  UPSTREAM_AUTH_FAILED = 'upstream_auth_failed',
+  UPSTREAM_VALIDATION_FAILED = 'upstream_validation_failed',
+  UPSTREAM_RATE_LIMITED = 'upstream_rate_limited',
+  UPSTREAM_UNAVAILABLE = 'upstream_unavailable',
+  UPSTREAM_BAD_RESPONSE = 'upstream_bad_response',
+  INTERNAL_ERROR = 'internal_error',
+}
+
+/**
+ * Body of every error response returned by the API routes.
+ * When `retryable` is set the request may be repeated after `retryAfter` seconds.
+ */
+export type ApiErrorBody = {
+  error: string;
+  code: ErrorCode;
+  retryable: boolean;
+  retryAfter?: number;
+  details?: unknown;
+};
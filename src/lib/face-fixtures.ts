@@ -0,0 +1,20 @@
+import fixtures from '@/data/face-landmark-fixtures.json';
+import type { FaceShape, Point } from '@/lib/face-geometry';
+
+/**
+ * The landmarks of one face and how the classifier is expected to see it
+ */
+export type FaceLandmarkFixture = {
+  name: string;
+  // 'generated' when built from the proportions of a shape, 'recorded' when detected in a photo
+  source: 'generated' | 'recorded';
+  // For recorded fixtures, the photo the face was detected in
+  photo?: string;
+  faceShape: FaceShape;
+  uncertain: boolean;
+  // Only for close calls: the shape that came second
+  runnerUp?: FaceShape;
+  landmarks: Point[];
+};
+
+export const FACE_LANDMARK_FIXTURES = fixtures as FaceLandmarkFixture[];
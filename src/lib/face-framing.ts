@@ -0,0 +1,65 @@
+type Point = {
+  x: number;
+  y: number;
+};
+
+export type Size = {
+  width: number;
+  height: number;
+};
+
+export type FaceBox = Point & Size;
+
+/**
+ * A square crop of the source image, in source pixels
+ */
+export type Framing = Point & {
+  size: number;
+};
+
+// Crop size relative to the face, wide enough to take in the shoulders
+const FACE_HEIGHT_SCALE = 2.4;
+const FACE_WIDTH_SCALE = 2.6;
+// Space kept above the top of the detected face for hair volume, relative to the face height
+const HEADROOM = 0.6;
+// Smallest crop allowed when adjusting by hand, relative to the shorter image side
+const MIN_FRAMING_SCALE = 0.2;
+
+/**
+ * Keep a crop square inside the image and within a sensible size range
+ */
+export function clampFraming(framing: Framing, image: Size): Framing {
+  const maxSize = Math.min(image.width, image.height);
+  const size = Math.min(maxSize, Math.max(maxSize * MIN_FRAMING_SCALE, framing.size));
+
+  return {
+    x: Math.min(image.width - size, Math.max(0, framing.x)),
+    y: Math.min(image.height - size, Math.max(0, framing.y)),
+    size,
+  };
+}
+
+/**
+ * Head-and-shoulders square around a detected face. The detection box is used
+ * for the top of the face and the jaw outline for the chin and cheek width,
+ * since the box tends to cut off the chin.
+ */
+export function getFaceFraming(box: FaceBox, jawOutline: Point[], image: Size): Framing {
+  const jawXs = jawOutline.map(point => point.x);
+  const left = Math.min(box.x, ...jawXs);
+  const right = Math.max(box.x + box.width, ...jawXs);
+  const chin = Math.max(box.y + box.height, ...jawOutline.map(point => point.y));
+
+  const faceWidth = right - left;
+  const faceHeight = chin - box.y;
+  const size = Math.max(faceHeight * FACE_HEIGHT_SCALE, faceWidth * FACE_WIDTH_SCALE);
+
+  return clampFraming(
+    {
+      x: (left + right) / 2 - size / 2,
+      y: box.y - faceHeight * HEADROOM,
+      size,
+    },
+    image
+  );
+}
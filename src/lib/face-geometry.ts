@@ -0,0 +1,292 @@
+/**
+ * Face shape classification from the 68 landmark points of a face, as found by face-api.js.
+ * Plain geometry without the browser or the model, so it also runs in Node.
+ */
+
+import type { FaceShapeRules, FeatureCondition, FeatureRange } from '@/lib/face-shape-rules';
+
+export enum FaceShape {
+  OVAL = 'oval',
+  ROUND = 'round',
+  SQUARE = 'square',
+  HEART = 'heart',
+  LONG = 'long',
+  DIAMOND = 'diamond',
+}
+
+export type Point = {
+  x: number;
+  y: number;
+};
+
+export const LANDMARK_COUNT = 68;
+
+// Where the features are in the 68 point layout
+const JAW = [0, 17] as const;
+const LEFT_EYE = [36, 42] as const;
+const RIGHT_EYE = [42, 48] as const;
+const MOUTH = [48, 68] as const;
+
+// Proportions of the face the shape is decided on, which rules can refer to by name
+export const FACE_FEATURES = [
+  'widthToHeightRatio',
+  'jawToForeheadRatio',
+  'foreheadToJawRatio',
+  'upperToLowerFaceWidthRatio',
+  'cheekToForeheadRatio',
+  'cheekToJawRatio',
+  'faceTapering',
+  'cheekFullness',
+  'cheekCurvature',
+  'jawRoundness',
+  'chinPointedness',
+  'chinRatio',
+  'faceCircularity',
+  'roundnessCoefficient',
+] as const;
+
+export type FaceFeature = (typeof FACE_FEATURES)[number];
+
+export type FaceMeasurements = Record<FaceFeature, number>;
+
+export type FaceShapeScores = Record<FaceShape, number>;
+
+// Share of the belief in each face shape, from 0 to 1; the shares add up to 1
+export type FaceShapeConfidence = Record<FaceShape, number>;
+
+/**
+ * How a face was classified, and why
+ */
+export type FaceClassification = {
+  // The most likely shape, and the one it was closest to
+  faceShape: FaceShape;
+  runnerUp: FaceShape;
+  // Set when the two are too close to call
+  uncertain: boolean;
+  confidence: FaceShapeConfidence;
+  scores: FaceShapeScores;
+  measurements: FaceMeasurements;
+  // The rules that decided the scores, in the order they applied
+  reasons: string[];
+  // Version of the ruleset the face was classified with
+  rulesetVersion: string;
+};
+
+// The forehead is not among the landmarks; its top is taken to be this many pixels above the eyes
+const FOREHEAD_ABOVE_EYES = 20;
+
+function slice(points: Point[], [start, end]: readonly [number, number]) {
+  return points.slice(start, end);
+}
+
+function minOf(values: number[]) {
+  return Math.min(...values);
+}
+
+function maxOf(values: number[]) {
+  return Math.max(...values);
+}
+
+/**
+ * Measure a face from its landmarks, or return null if they do not describe a face
+ */
+export function measureFace(landmarks: Point[]): FaceMeasurements | null {
+  if (landmarks.length !== LANDMARK_COUNT) return null;
+
+  const jawLine = slice(landmarks, JAW);
+  const leftEye = slice(landmarks, LEFT_EYE);
+  const rightEye = slice(landmarks, RIGHT_EYE);
+  const mouth = slice(landmarks, MOUTH);
+
+  // Width at cheek level, near the ears, and how far the mid cheeks reach out from the centre
+  const cheekLeft = jawLine[1];
+  const cheekRight = jawLine[15];
+  const faceWidthAtCheeks = cheekRight.x - cheekLeft.x;
+  const faceCenterX = (cheekLeft.x + cheekRight.x) / 2;
+  const midCheekLeft = jawLine[2];
+  const midCheekRight = jawLine[14];
+  const cheekFullness =
+    (faceCenterX - midCheekLeft.x + (midCheekRight.x - faceCenterX)) / faceWidthAtCheeks;
+
+  const faceWidth = maxOf(jawLine.map(pt => pt.x)) - minOf(jawLine.map(pt => pt.x));
+  const foreheadTop = minOf([...leftEye, ...rightEye].map(pt => pt.y)) - FOREHEAD_ABOVE_EYES;
+  const chinBottom = jawLine[8].y;
+  const faceHeight = chinBottom - foreheadTop;
+
+  if (faceWidth <= 0 || faceHeight <= 0 || faceWidthAtCheeks <= 0) return null;
+
+  const faceCircularity = Math.min(faceWidth, faceHeight) / Math.max(faceWidth, faceHeight);
+  const roundnessCoefficient =
+    Math.abs(faceWidth - faceHeight) < faceWidth * 0.1
+      ? 2
+      : 1 - Math.abs(faceWidth - faceHeight) / faceWidth;
+
+  // Slope of the cheeks down to the jaw corners; flatter for full, round cheeks
+  const jawCornerLeft = jawLine[3];
+  const jawCornerRight = jawLine[13];
+  const cheekCurvature =
+    (Math.abs(midCheekLeft.y - jawCornerLeft.y) / (faceCenterX - midCheekLeft.x) +
+      Math.abs(midCheekRight.y - jawCornerRight.y) / (midCheekRight.x - faceCenterX)) /
+    2;
+
+  const chinLength = chinBottom - maxOf(mouth.map(pt => pt.y));
+  const chinRatio = chinLength / faceHeight;
+
+  const jawWidth = jawCornerRight.x - jawCornerLeft.x;
+  const eyeWidth = maxOf(rightEye.map(pt => pt.x)) - minOf(leftEye.map(pt => pt.x));
+  const foreheadWidth = Math.max(eyeWidth * 1.6, faceWidth * 0.85);
+  const upperFaceWidth = Math.max(foreheadWidth, faceWidth * 0.9);
+
+  // Interior angle at the chin between the jaw corners: wide for pointed chins
+  const chin = jawLine[8];
+  const left = { x: jawCornerLeft.x - chin.x, y: jawCornerLeft.y - chin.y };
+  const right = { x: jawCornerRight.x - chin.x, y: jawCornerRight.y - chin.y };
+  const cosAngle =
+    (left.x * right.x + left.y * right.y) /
+    (Math.hypot(left.x, left.y) * Math.hypot(right.x, right.y));
+  const jawAngle = Math.acos(cosAngle) * (180 / Math.PI);
+
+  return {
+    widthToHeightRatio: faceWidth / faceHeight,
+    jawToForeheadRatio: jawWidth / foreheadWidth,
+    foreheadToJawRatio: foreheadWidth / jawWidth,
+    upperToLowerFaceWidthRatio: upperFaceWidth / jawWidth,
+    cheekToForeheadRatio: faceWidthAtCheeks / foreheadWidth,
+    cheekToJawRatio: faceWidthAtCheeks / jawWidth,
+    faceTapering: (foreheadWidth - jawWidth) / foreheadWidth,
+    cheekFullness,
+    cheekCurvature,
+    jawRoundness: 180 - jawAngle,
+    chinPointedness: jawAngle,
+    chinRatio,
+    faceCircularity,
+    roundnessCoefficient,
+  };
+}
+
+function inRange(value: number, { gt, gte, lt, lte }: FeatureRange) {
+  return (
+    (gt === undefined || value > gt) &&
+    (gte === undefined || value >= gte) &&
+    (lt === undefined || value < lt) &&
+    (lte === undefined || value <= lte)
+  );
+}
+
+function matches(measurements: FaceMeasurements, when: FeatureCondition) {
+  return Object.entries(when).every(([feature, range]) =>
+    inRange(measurements[feature as FaceFeature], range)
+  );
+}
+
+/**
+ * Score every face shape against the measurements. Each rule applies its first matching
+ * case. Higher is more likely; scores can go below zero when a measurement speaks against
+ * a shape.
+ */
+export function scoreFaceShape(measurements: FaceMeasurements, rules: FaceShapeRules) {
+  const scores = Object.fromEntries(
+    Object.values(FaceShape).map(shape => [shape, 0])
+  ) as FaceShapeScores;
+  const reasons: string[] = [];
+
+  for (const rule of rules.rules) {
+    const match = rule.cases.find(({ when }) => matches(measurements, when));
+    if (!match) continue;
+
+    // An exclusive case settles the shape on its own, wiping out all other scores
+    if (match.exclusive) {
+      for (const shape of Object.values(FaceShape)) scores[shape] = 0;
+    }
+    for (const [shape, weight] of Object.entries(match.weights)) {
+      scores[shape as FaceShape] += weight;
+    }
+    if (match.reason) reasons.push(match.reason);
+  }
+
+  return { scores, reasons };
+}
+
+/**
+ * Decide between two shapes whose scores are close, or return null to keep the order
+ */
+function breakTie(
+  top: FaceShape,
+  second: FaceShape,
+  measurements: FaceMeasurements,
+  rules: FaceShapeRules
+) {
+  const tieBreak = rules.tieBreaks.find(
+    ({ shapes }) => shapes.includes(top) && shapes.includes(second)
+  );
+  return tieBreak?.cases.find(({ when }) => matches(measurements, when)) ?? null;
+}
+
+// Turn the scores into confidences with a softmax, so equal scores share equally
+function toConfidence(scores: FaceShapeScores, temperature: number): FaceShapeConfidence {
+  const maxScore = Math.max(...Object.values(scores));
+  const weights = Object.entries(scores).map(
+    ([shape, score]) => [shape, Math.exp((score - maxScore) / temperature)] as const
+  );
+  const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+  return Object.fromEntries(
+    weights.map(([shape, weight]) => [shape, weight / total])
+  ) as FaceShapeConfidence;
+}
+
+/**
+ * Classify measurements that were already taken, see `measureFace`
+ */
+export function classifyMeasurements(
+  measurements: FaceMeasurements,
+  rules: FaceShapeRules
+): FaceClassification {
+  const { scores, reasons } = scoreFaceShape(measurements, rules);
+
+  const [top, second] = Object.values(FaceShape)
+    .map(shape => ({ shape, score: scores[shape] }))
+    .sort((a, b) => b.score - a.score);
+
+  // Close scores are reported as uncertain, including when no rule matched at all
+  const uncertain = top.score - second.score <= rules.closeScoreMargin;
+  let faceShape = top.shape;
+
+  if (uncertain && second.score > 0) {
+    const decision = breakTie(top.shape, second.shape, measurements, rules);
+    if (decision) {
+      faceShape = decision.pick;
+      reasons.push(
+        `Close call between ${top.shape} and ${second.shape}, ${decision.reason} decides`
+      );
+    }
+  }
+
+  // A tie-break that favours the runner-up lets it lead with the higher score
+  if (faceShape === second.shape) {
+    scores[top.shape] = second.score;
+    scores[second.shape] = top.score;
+  }
+
+  return {
+    faceShape,
+    runnerUp: faceShape === top.shape ? second.shape : top.shape,
+    uncertain,
+    confidence: toConfidence(scores, rules.scoreTemperature),
+    scores,
+    measurements,
+    reasons,
+    rulesetVersion: rules.version,
+  };
+}
+
+/**
+ * Classify the shape of a face from its 68 landmarks with a ruleset, see
+ * `getFaceShapeRules`. Returns null if the landmarks do not describe a face.
+ */
+export function classifyFaceShape(
+  landmarks: Point[],
+  rules: FaceShapeRules
+): FaceClassification | null {
+  const measurements = measureFace(landmarks);
+  return measurements ? classifyMeasurements(measurements, rules) : null;
+}
@@ -0,0 +1,196 @@
+import { classifyFaceShape, FaceShape, type Point } from '@/lib/face-geometry';
+import type { FaceShapeRules } from '@/lib/face-shape-rules';
+
+const FACE_SHAPES = Object.values(FaceShape);
+
+/**
+ * A face with a known shape; landmarks are null when no face was found in its photo
+ */
+export type LabeledFace = {
+  name: string;
+  faceShape: FaceShape;
+  landmarks: Point[] | null;
+};
+
+export type EvaluatedFace = {
+  name: string;
+  expected: FaceShape;
+  // Null when the face could not be found or measured
+  predicted: FaceShape | null;
+  uncertain: boolean;
+  confidence: number | null;
+};
+
+export type ShapeMetrics = {
+  // Null when the shape was never predicted, or never expected
+  precision: number | null;
+  recall: number | null;
+  support: number;
+};
+
+/**
+ * The outcome of classifying a labeled set of faces with one ruleset. Saved runs are
+ * compared with later ones, see `diffEvaluations`.
+ */
+export type Evaluation = {
+  rulesetVersion: string;
+  createdAt: string;
+  accuracy: number;
+  // Counts by expected shape, then by predicted shape
+  confusion: Record<FaceShape, Record<FaceShape, number>>;
+  perShape: Record<FaceShape, ShapeMetrics>;
+  // Faces that could not be classified at all
+  unclassified: number;
+  faces: EvaluatedFace[];
+};
+
+export type EvaluationDiff = {
+  fromVersion: string;
+  toVersion: string;
+  accuracyChange: number;
+  // Faces that went from wrong to right, and from right to wrong
+  fixed: EvaluatedFace[];
+  broken: EvaluatedFace[];
+  // Faces whose wrong prediction changed to another wrong one
+  changed: { name: string; from: FaceShape | null; to: FaceShape | null }[];
+};
+
+function byShape<T>(value: (shape: FaceShape) => T) {
+  return Object.fromEntries(FACE_SHAPES.map(shape => [shape, value(shape)])) as Record<
+    FaceShape,
+    T
+  >;
+}
+
+function ratio(part: number, whole: number) {
+  return whole === 0 ? null : part / whole;
+}
+
+/**
+ * Classify every face and score the predictions against the labels
+ */
+export function evaluateFaceShapes(faces: LabeledFace[], rules: FaceShapeRules): Evaluation {
+  const evaluated = faces.map<EvaluatedFace>(({ name, faceShape, landmarks }) => {
+    const classification = landmarks && classifyFaceShape(landmarks, rules);
+    return {
+      name,
+      expected: faceShape,
+      predicted: classification ? classification.faceShape : null,
+      uncertain: classification ? classification.uncertain : false,
+      confidence: classification ? classification.confidence[classification.faceShape] : null,
+    };
+  });
+
+  const confusion = byShape(() => byShape(() => 0));
+  for (const { expected, predicted } of evaluated) {
+    if (predicted) confusion[expected][predicted] += 1;
+  }
+
+  const perShape = byShape<ShapeMetrics>(shape => {
+    const correct = confusion[shape][shape];
+    const predicted = FACE_SHAPES.reduce((sum, expected) => sum + confusion[expected][shape], 0);
+    const support = evaluated.filter(face => face.expected === shape).length;
+    return { precision: ratio(correct, predicted), recall: ratio(correct, support), support };
+  });
+
+  const correct = evaluated.filter(face => face.predicted === face.expected).length;
+  return {
+    rulesetVersion: rules.version,
+    createdAt: new Date().toISOString(),
+    accuracy: ratio(correct, evaluated.length) ?? 0,
+    confusion,
+    perShape,
+    unclassified: evaluated.filter(face => face.predicted === null).length,
+    faces: evaluated,
+  };
+}
+
+/**
+ * What changed between two runs over the same faces, matched by name
+ */
+export function diffEvaluations(previous: Evaluation, current: Evaluation): EvaluationDiff {
+  const before = new Map(previous.faces.map(face => [face.name, face]));
+  const diff: EvaluationDiff = {
+    fromVersion: previous.rulesetVersion,
+    toVersion: current.rulesetVersion,
+    accuracyChange: current.accuracy - previous.accuracy,
+    fixed: [],
+    broken: [],
+    changed: [],
+  };
+
+  for (const face of current.faces) {
+    const old = before.get(face.name);
+    if (!old || old.predicted === face.predicted) continue;
+
+    const wasRight = old.predicted === old.expected;
+    const isRight = face.predicted === face.expected;
+    if (isRight) diff.fixed.push(face);
+    else if (wasRight) diff.broken.push(face);
+    else diff.changed.push({ name: face.name, from: old.predicted, to: face.predicted });
+  }
+
+  return diff;
+}
+
+function percent(value: number | null) {
+  return value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+function pad(value: string | number, width: number) {
+  return String(value).padStart(width);
+}
+
+/**
+ * A plain-text report of a run: accuracy, the confusion matrix and per-shape metrics
+ */
+export function formatEvaluation(evaluation: Evaluation) {
+  const width = Math.max(...FACE_SHAPES.map(shape => shape.length)) + 2;
+  const lines = [
+    `Ruleset ${evaluation.rulesetVersion}: ${evaluation.faces.length} faces, accuracy ${percent(evaluation.accuracy)}` +
+      (evaluation.unclassified > 0 ? `, ${evaluation.unclassified} unclassified` : ''),
+    '',
+    'Confusion matrix (rows: expected, columns: predicted)',
+    pad('', width) + FACE_SHAPES.map(shape => pad(shape, width)).join(''),
+    ...FACE_SHAPES.map(
+      expected =>
+        pad(expected, width) +
+        FACE_SHAPES.map(predicted => pad(evaluation.confusion[expected][predicted], width)).join('')
+    ),
+    '',
+    pad('', width) + ['precision', 'recall', 'support'].map(title => pad(title, 11)).join(''),
+    ...FACE_SHAPES.map(shape => {
+      const { precision, recall, support } = evaluation.perShape[shape];
+      return (
+        pad(shape, width) +
+        [percent(precision), percent(recall), support].map(value => pad(value, 11)).join('')
+      );
+    }),
+  ];
+
+  const unclassified = evaluation.faces.filter(face => face.predicted === null);
+  if (unclassified.length > 0) {
+    lines.push('', 'No face found or measured in:', ...unclassified.map(face => `  ${face.name}`));
+  }
+  return lines.join('\n');
+}
+
+export function formatEvaluationDiff(diff: EvaluationDiff) {
+  const sign = diff.accuracyChange > 0 ? '+' : '';
+  const lines = [
+    `Compared with ruleset ${diff.fromVersion}: accuracy ${sign}${(diff.accuracyChange * 100).toFixed(1)} points`,
+    ...diff.fixed.map(face => `  fixed   ${face.name}: now ${face.predicted}`),
+    ...diff.broken.map(
+      face =>
+        `  broken  ${face.name}: now ${face.predicted ?? 'unclassified'}, expected ${face.expected}`
+    ),
+    ...diff.changed.map(
+      ({ name, from, to }) =>
+        `  changed ${name}: ${from ?? 'unclassified'} -> ${to ?? 'unclassified'}`
+    ),
+  ];
+  if (diff.fixed.length + diff.broken.length + diff.changed.length === 0) {
+    lines.push('  no predictions changed');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,215 @@
+import defaultRules from '@/data/face-shape-rules.json';
+import { FACE_FEATURES, type FaceFeature, FaceShape } from '@/lib/face-geometry';
+
+const FACE_SHAPES = Object.values(FaceShape);
+const RANGE_BOUNDS = ['gt', 'gte', 'lt', 'lte'] as const;
+
+/**
+ * Bounds on a measurement; every bound that is given must hold
+ */
+export type FeatureRange = Partial<Record<(typeof RANGE_BOUNDS)[number], number>>;
+
+// Ranges that must all hold, by measurement; an empty condition always holds
+export type FeatureCondition = Partial<Record<FaceFeature, FeatureRange>>;
+
+export type ScoreCase = {
+  when: FeatureCondition;
+  // Points added to each shape
+  weights: Partial<Record<FaceShape, number>>;
+  // Reset every score before adding the weights, so the shape wins outright
+  exclusive?: boolean;
+  reason?: string;
+};
+
+/**
+ * A chain of cases of which the first that matches applies
+ */
+export type ScoreRule = {
+  id: string;
+  cases: ScoreCase[];
+};
+
+/**
+ * How to decide between two shapes whose scores are close: the first case that matches
+ * picks one of them
+ */
+export type TieBreak = {
+  shapes: [FaceShape, FaceShape];
+  cases: { when: FeatureCondition; pick: FaceShape; reason: string }[];
+};
+
+export type FaceShapeRules = {
+  // Recorded with every classification, so results can be traced back to the rules used
+  version: string;
+  // Top two scores this close are decided by the tie-breaks and reported as uncertain
+  closeScoreMargin: number;
+  // How many score points make one shape e times as likely as another
+  scoreTemperature: number;
+  rules: ScoreRule[];
+  tieBreaks: TieBreak[];
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function includes<T extends string>(values: readonly T[], value: unknown): value is T {
+  return values.includes(value as T);
+}
+
+function validateCondition(when: unknown, at: string, problems: string[]) {
+  if (!isRecord(when)) {
+    problems.push(`${at}: "when" must be an object`);
+    return;
+  }
+  for (const [feature, range] of Object.entries(when)) {
+    if (!includes(FACE_FEATURES, feature)) {
+      problems.push(`${at}: unknown measurement "${feature}"`);
+    } else if (
+      !isRecord(range) ||
+      Object.keys(range).length === 0 ||
+      !Object.entries(range).every(
+        ([bound, value]) => includes(RANGE_BOUNDS, bound) && Number.isFinite(value)
+      )
+    ) {
+      problems.push(`${at}: range of "${feature}" may only have numeric gt, gte, lt and lte`);
+    }
+  }
+}
+
+function validateScoreCase(entry: unknown, at: string, problems: string[]) {
+  if (!isRecord(entry)) {
+    problems.push(`${at}: case must be an object`);
+    return;
+  }
+  validateCondition(entry.when, at, problems);
+  if (
+    !isRecord(entry.weights) ||
+    !Object.entries(entry.weights).every(
+      ([shape, weight]) => includes(FACE_SHAPES, shape) && Number.isFinite(weight)
+    )
+  ) {
+    problems.push(`${at}: "weights" must map ${FACE_SHAPES.join(', ')} to numbers`);
+  }
+  if (entry.exclusive !== undefined && typeof entry.exclusive !== 'boolean') {
+    problems.push(`${at}: "exclusive" must be a boolean`);
+  }
+  if (entry.reason !== undefined && typeof entry.reason !== 'string') {
+    problems.push(`${at}: "reason" must be a string`);
+  }
+}
+
+function validateTieBreak(entry: unknown, at: string, problems: string[]) {
+  if (!isRecord(entry)) {
+    problems.push(`${at}: tie-break must be an object`);
+    return;
+  }
+  const { shapes, cases } = entry;
+  if (
+    !Array.isArray(shapes) ||
+    shapes.length !== 2 ||
+    shapes[0] === shapes[1] ||
+    !shapes.every(shape => includes(FACE_SHAPES, shape))
+  ) {
+    problems.push(`${at}: "shapes" must be two different face shapes`);
+    return;
+  }
+  if (!Array.isArray(cases)) {
+    problems.push(`${at}: "cases" must be a list`);
+    return;
+  }
+  cases.forEach((tieCase, index) => {
+    const caseAt = `${at} case ${index}`;
+    if (!isRecord(tieCase)) {
+      problems.push(`${caseAt}: case must be an object`);
+      return;
+    }
+    validateCondition(tieCase.when, caseAt, problems);
+    if (!includes(shapes, tieCase.pick)) {
+      problems.push(`${caseAt}: "pick" must be ${shapes.join(' or ')}`);
+    }
+    if (typeof tieCase.reason !== 'string' || !tieCase.reason) {
+      problems.push(`${caseAt}: "reason" is required`);
+    }
+  });
+}
+
+/**
+ * Validate a ruleset, failing loudly with every problem found so a broken threshold
+ * change is caught when the rules are loaded rather than by odd classifications
+ */
+export function parseFaceShapeRules(value: unknown): FaceShapeRules {
+  if (!isRecord(value)) {
+    throw new Error('Face shape rules must be an object');
+  }
+
+  const problems: string[] = [];
+  if (typeof value.version !== 'string' || !value.version) {
+    problems.push('"version" is required');
+  }
+  if (typeof value.closeScoreMargin !== 'number' || value.closeScoreMargin < 0) {
+    problems.push('"closeScoreMargin" must be a number of at least 0');
+  }
+  if (typeof value.scoreTemperature !== 'number' || value.scoreTemperature <= 0) {
+    problems.push('"scoreTemperature" must be a positive number');
+  }
+
+  if (!Array.isArray(value.rules)) {
+    problems.push('"rules" must be a list');
+  } else {
+    const ids = new Set<string>();
+    value.rules.forEach((rule, index) => {
+      if (!isRecord(rule) || typeof rule.id !== 'string' || !rule.id) {
+        problems.push(`rule ${index}: "id" is required`);
+        return;
+      }
+      const at = `rule ${rule.id}`;
+      if (ids.has(rule.id)) {
+        problems.push(`${at}: duplicate id`);
+      }
+      ids.add(rule.id);
+
+      if (!Array.isArray(rule.cases) || rule.cases.length === 0) {
+        problems.push(`${at}: "cases" must be a non-empty list`);
+        return;
+      }
+      rule.cases.forEach((scoreCase, caseIndex) =>
+        validateScoreCase(scoreCase, `${at} case ${caseIndex}`, problems)
+      );
+    });
+  }
+
+  if (!Array.isArray(value.tieBreaks)) {
+    problems.push('"tieBreaks" must be a list');
+  } else {
+    value.tieBreaks.forEach((tieBreak, index) =>
+      validateTieBreak(tieBreak, `tie-break ${index}`, problems)
+    );
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid face shape rules: ${problems.join('; ')}`);
+  }
+  return value as FaceShapeRules;
+}
+
+/**
+ * A ruleset under the name it is configured as, see `GET /api/face-shape-rules`
+ */
+export type FaceShapeRuleset = {
+  variant: string;
+  rules: FaceShapeRules;
+};
+
+// The variant name of the bundled rules, which are always available
+export const DEFAULT_RULESET_VARIANT = 'default';
+
+let rules: FaceShapeRules | null = null;
+
+/**
+ * The ruleset the app classifies with, from `src/data/face-shape-rules.json`
+ */
+export function getFaceShapeRules(): FaceShapeRules {
+  rules ??= parseFaceShapeRules(defaultRules);
+  return rules;
+}
@@ -0,0 +1,110 @@
+import { ApiError } from '@/lib/api-errors';
+import { ErrorCode } from '@/lib/error-codes';
+import {
+  DEFAULT_RULESET_VARIANT,
+  getFaceShapeRules,
+  parseFaceShapeRules,
+  type FaceShapeRules,
+  type FaceShapeRuleset,
+} from '@/lib/face-shape-rules';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const VARIANT_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+function readList(variable: string) {
+  return (process.env[variable] ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Ruleset files by variant name, from `FACE_SHAPE_RULES_VARIANTS=name=path,...`
+ */
+function getVariantFiles() {
+  const files = new Map<string, string>();
+  for (const entry of readList('FACE_SHAPE_RULES_VARIANTS')) {
+    const [name, file] = entry.split('=').map(part => part.trim());
+    if (!VARIANT_PATTERN.test(name) || name === DEFAULT_RULESET_VARIANT || !file) {
+      throw new Error(`Invalid FACE_SHAPE_RULES_VARIANTS entry: ${entry}`);
+    }
+    files.set(name, path.resolve(file));
+  }
+  return files;
+}
+
+const loaded = new Map<string, Promise<FaceShapeRules>>();
+
+async function loadVariant(variant: string, file: string) {
+  try {
+    return parseFaceShapeRules(JSON.parse(await fs.readFile(file, 'utf8')));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Face shape rules ${variant} in ${file} could not be loaded: ${reason}`);
+  }
+}
+
+/**
+ * Load a configured ruleset once. A broken file fails every request for it rather than
+ * quietly falling back, so a bad threshold change is noticed.
+ */
+function getVariantRules(variant: string, file: string) {
+  let rules = loaded.get(file);
+  if (!rules) {
+    rules = loadVariant(variant, file);
+    loaded.set(file, rules);
+    // Let a fixed file be picked up by the next request
+    rules.catch(() => loaded.delete(file));
+  }
+  return rules;
+}
+
+/**
+ * The variants visitors are split across, from `FACE_SHAPE_RULES_SPLIT`
+ */
+function getSplit(files: Map<string, string>) {
+  const split = readList('FACE_SHAPE_RULES_SPLIT');
+  const unknown = split.find(name => name !== DEFAULT_RULESET_VARIANT && !files.has(name));
+  if (unknown) {
+    throw new Error(`FACE_SHAPE_RULES_SPLIT names an unknown variant: ${unknown}`);
+  }
+  return split.length > 0 ? split : [DEFAULT_RULESET_VARIANT];
+}
+
+/**
+ * Pick a variant from the split by hashing the key, so one visitor keeps seeing the same one
+ */
+function pickVariant(split: string[], key: string | null) {
+  if (!key || split.length === 1) return split[0];
+  const bucket = createHash('sha256').update(key).digest().readUInt32BE(0);
+  return split[bucket % split.length];
+}
+
+/**
+ * The ruleset to classify with: the `variant` asked for, otherwise the one the `key`
+ * falls on in the configured split. Without any configuration that is the bundled rules.
+ */
+export async function selectFaceShapeRuleset({
+  key,
+  variant,
+}: {
+  key: string | null;
+  variant: string | null;
+}): Promise<FaceShapeRuleset> {
+  const files = getVariantFiles();
+  const selected = variant ?? pickVariant(getSplit(files), key);
+
+  if (selected === DEFAULT_RULESET_VARIANT) {
+    return { variant: selected, rules: getFaceShapeRules() };
+  }
+
+  const file = files.get(selected);
+  if (!file) {
+    throw new ApiError(400, ErrorCode.INVALID_REQUEST, `Unknown ruleset variant: ${selected}`, {
+      field: 'variant',
+    });
+  }
+  return { variant: selected, rules: await getVariantRules(selected, file) };
+}
@@ -0,0 +1,182 @@
+import { ApiError } from '@/lib/api-errors';
+import { readNumberEnv } from '@/lib/env';
+import { ErrorCode } from '@/lib/error-codes';
+import { FaceShape } from '@/lib/face-geometry';
+import { getHairstyle } from '@/lib/hairstyle-catalog';
+import type { Hairstyle } from '@/lib/hairstyles';
+import { loadImageInput, MAX_IMAGE_BYTES, type ImageInput } from '@/lib/image-input';
+import type { TaskFaceAnalysis } from '@/lib/task-store';
+
+/**
+ * A validated `POST /api/generate` request
+ */
+export type GenerateRequest = {
+  userImage: ImageInput;
+  hairstyle: Hairstyle;
+  // Caller-supplied prompt overriding the catalog one
+  prompt: string | null;
+  // Skip the result cache and generate a new variation
+  fresh: boolean;
+  // What the app detected in the selfie, recorded with the task
+  faceAnalysis: TaskFaceAnalysis | null;
+};
+
+/**
+ * A validated `POST /api/generate/batch` request
+ */
+export type BatchGenerateRequest = {
+  userImage: ImageInput;
+  hairstyles: Hairstyle[];
+  prompt: string | null;
+  faceAnalysis: TaskFaceAnalysis | null;
+};
+
+export const MAX_BATCH_SIZE = readNumberEnv('MAX_BATCH_SIZE', 6);
+const MAX_PROMPT_LENGTH = readNumberEnv('MAX_PROMPT_LENGTH', 1000);
+// Room for a base64-encoded image plus the remaining fields
+export const MAX_GENERATE_BODY_BYTES = Math.ceil((MAX_IMAGE_BYTES * 4) / 3) + 64 * 1024;
+
+const GENERATE_FIELDS = ['userImage', 'hairstyleId', 'prompt', 'fresh', 'faceAnalysis'];
+const BATCH_FIELDS = ['userImage', 'hairstyleIds', 'prompt', 'faceAnalysis'];
+const FACE_SHAPES = Object.values(FaceShape);
+const RULESET_NAME_PATTERN = /^[\w.-]{1,64}$/;
+
+// Control characters other than tab and line breaks, plus invisible formatting and
+// bidirectional override characters that can hide text from a reviewer
+const FORBIDDEN_PROMPT_CHARACTERS =
+  /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f\u200b-\u200f\u202a-\u202e\u2066-\u2069\ufeff]/;
+
+function invalid(field: string, message: string) {
+  return new ApiError(400, ErrorCode.INVALID_REQUEST, message, { field });
+}
+
+function parseFresh(value: unknown) {
+  if (value === undefined) return false;
+  if (typeof value !== 'boolean') {
+    throw invalid('fresh', 'fresh must be a boolean');
+  }
+  return value;
+}
+
+function parseFaceAnalysis(value: unknown): TaskFaceAnalysis | null {
+  if (value === undefined || value === null) return null;
+
+  const { faceShape, rulesetVariant, rulesetVersion } = value as Record<string, unknown>;
+  if (
+    typeof value !== 'object' ||
+    !FACE_SHAPES.includes(faceShape as FaceShape) ||
+    typeof rulesetVariant !== 'string' ||
+    !RULESET_NAME_PATTERN.test(rulesetVariant) ||
+    typeof rulesetVersion !== 'string' ||
+    !RULESET_NAME_PATTERN.test(rulesetVersion)
+  ) {
+    throw invalid(
+      'faceAnalysis',
+      'faceAnalysis must have a faceShape, a rulesetVariant and a rulesetVersion'
+    );
+  }
+  return { faceShape: faceShape as FaceShape, rulesetVariant, rulesetVersion };
+}
+
+function parsePrompt(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') {
+    throw invalid('prompt', 'prompt must be a string');
+  }
+
+  const prompt = value.normalize('NFC').trim();
+  if (!prompt) return null;
+  if (prompt.length > MAX_PROMPT_LENGTH) {
+    throw invalid('prompt', `prompt must be at most ${MAX_PROMPT_LENGTH} characters`);
+  }
+  if (FORBIDDEN_PROMPT_CHARACTERS.test(prompt)) {
+    throw invalid('prompt', 'prompt contains control or invisible characters');
+  }
+  return prompt;
+}
+
+function parseHairstyle(value: unknown, field: string): Hairstyle {
+  if (typeof value !== 'string' || !value) {
+    throw invalid(field, `${field} is required`);
+  }
+
+  const hairstyle = getHairstyle(value);
+  if (!hairstyle) {
+    throw new ApiError(400, ErrorCode.UNKNOWN_HAIRSTYLE, `Unknown hairstyle: ${value}`, {
+      field,
+    });
+  }
+  return hairstyle;
+}
+
+function parseHairstyles(value: unknown): Hairstyle[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw invalid('hairstyleIds', 'hairstyleIds must be a non-empty list');
+  }
+  if (value.length > MAX_BATCH_SIZE) {
+    throw invalid('hairstyleIds', `hairstyleIds may list at most ${MAX_BATCH_SIZE} hairstyles`);
+  }
+  if (new Set(value).size !== value.length) {
+    throw invalid('hairstyleIds', 'hairstyleIds must not contain duplicates');
+  }
+  return value.map((id, index) => parseHairstyle(id, `hairstyleIds[${index}]`));
+}
+
+/**
+ * Check that the body is an object with only the expected fields
+ */
+function readFields(body: unknown, allowed: string[]) {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw invalid('body', 'Request body must be a JSON object');
+  }
+
+  const fields = body as Record<string, unknown>;
+
+  // Reference images only ever come from the catalog, never from the client
+  if ('hairstyleImage' in fields) {
+    throw invalid(
+      'hairstyleImage',
+      'hairstyleImage is not accepted, pass a hairstyleId from GET /api/hairstyles instead'
+    );
+  }
+
+  const unknownField = Object.keys(fields).find(field => !allowed.includes(field));
+  if (unknownField) {
+    throw invalid(unknownField, `Unknown field: ${unknownField}`);
+  }
+
+  return fields;
+}
+
+/**
+ * Validate the body of a generation request. Every failure names the offending
+ * field in `details.field`: 400 for malformed values, 413 for oversized images
+ * and 415 for unsupported image types.
+ */
+export async function parseGenerateRequest(body: unknown): Promise<GenerateRequest> {
+  const fields = readFields(body, GENERATE_FIELDS);
+
+  // Cheap checks first, so a bad request fails before the image is downloaded
+  const hairstyle = parseHairstyle(fields.hairstyleId, 'hairstyleId');
+  const prompt = parsePrompt(fields.prompt);
+  const fresh = parseFresh(fields.fresh);
+  const faceAnalysis = parseFaceAnalysis(fields.faceAnalysis);
+  const userImage = await loadImageInput('userImage', fields.userImage);
+
+  return { userImage, hairstyle, prompt, fresh, faceAnalysis };
+}
+
+/**
+ * Validate the body of a batch request: one selfie and up to `MAX_BATCH_SIZE`
+ * distinct hairstyles, failing the same way as a single generation request
+ */
+export async function parseBatchGenerateRequest(body: unknown): Promise<BatchGenerateRequest> {
+  const fields = readFields(body, BATCH_FIELDS);
+
+  const hairstyles = parseHairstyles(fields.hairstyleIds);
+  const prompt = parsePrompt(fields.prompt);
+  const faceAnalysis = parseFaceAnalysis(fields.faceAnalysis);
+  const userImage = await loadImageInput('userImage', fields.userImage);
+
+  return { userImage, hairstyles, prompt, faceAnalysis };
+}
@@ -0,0 +1,66 @@
+import { GENERATION_MODEL, OUTPUT_RATIO } from '@/constants';
+import { ApiError } from '@/lib/api-errors';
+import { ErrorCode } from '@/lib/error-codes';
+import { getHairstyleReferenceImage } from '@/lib/hairstyle-catalog';
+import type { Hairstyle } from '@/lib/hairstyles';
+import { toDataUri, type ImageInput } from '@/lib/image-input';
+import { getNormalizeOptions, normalizeImage } from '@/lib/image-normalize';
+import { saveInputImage } from '@/lib/input-images';
+import type { CreateTaskInput } from '@/lib/providers';
+import type { TaskInputImage } from '@/lib/task-store';
+
+/**
+ * A selfie ready for submission, with what we record about it
+ */
+export type PreparedSelfie = {
+  uri: string;
+  inputImage: TaskInputImage;
+};
+
+/**
+ * Normalize a caller's selfie and keep a copy of the exact image submitted,
+ * so the result can be reproduced later
+ */
+export async function prepareSelfie(userImage: ImageInput): Promise<PreparedSelfie> {
+  const options = getNormalizeOptions(OUTPUT_RATIO);
+  const selfie = await normalizeImage(userImage, options).catch(error => {
+    // The header looked fine but the image data itself is corrupt
+    console.warn('Failed to normalize user image:', error);
+    throw new ApiError(415, ErrorCode.UNSUPPORTED_MEDIA_TYPE, 'userImage could not be decoded', {
+      field: 'userImage',
+    });
+  });
+
+  await saveInputImage(selfie).catch(error => {
+    console.error('Failed to store input image:', error);
+  });
+
+  return {
+    uri: toDataUri(selfie),
+    inputImage: {
+      sha256: selfie.sha256,
+      mimeType: selfie.mimeType,
+      width: selfie.width,
+      height: selfie.height,
+      fit: options.fit,
+      maxEdge: options.maxEdge,
+    },
+  };
+}
+
+/**
+ * Provider input putting the selfie in a hairstyle. An explicit prompt wins over
+ * the one the catalog defines for the hairstyle.
+ */
+export async function buildTaskInput(
+  selfie: PreparedSelfie,
+  hairstyle: Hairstyle,
+  prompt: string | null
+): Promise<CreateTaskInput> {
+  return {
+    promptText: prompt ?? hairstyle.prompt,
+    ratio: OUTPUT_RATIO,
+    model: GENERATION_MODEL,
+    referenceImages: [{ uri: selfie.uri }, { uri: await getHairstyleReferenceImage(hairstyle) }],
+  };
+}
@@ -0,0 +1,122 @@
+import manifest from '@/data/hairstyles.json';
+import { FaceShape } from '@/lib/face-geometry';
+import { HAIR_LENGTHS, HAIR_TEXTURES, type Hairstyle } from '@/lib/hairstyles';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const IMAGE_PATTERN = /^\/images\/(?:[\w-]+\/)*[\w-]+\.(jpe?g|png|webp)$/;
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+const FACE_SHAPES = Object.values(FaceShape);
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function includes<T extends string>(values: readonly T[], value: unknown): value is T {
+  return values.includes(value as T);
+}
+
+/**
+ * Check a single manifest entry, returning a description of each problem found
+ */
+function validateEntry(entry: Record<string, unknown>): string[] {
+  const problems: string[] = [];
+
+  if (typeof entry.id !== 'string' || !ID_PATTERN.test(entry.id)) {
+    problems.push('"id" must be a lowercase slug');
+  }
+  if (typeof entry.name !== 'string' || !entry.name) {
+    problems.push('"name" is required');
+  }
+  if (typeof entry.image !== 'string' || !IMAGE_PATTERN.test(entry.image)) {
+    problems.push('"image" must be a JPEG, PNG or WebP path under /images/');
+  }
+  if (typeof entry.prompt !== 'string' || !entry.prompt) {
+    problems.push('"prompt" is required');
+  }
+  if (!includes(HAIR_LENGTHS, entry.length)) {
+    problems.push(`"length" must be one of ${HAIR_LENGTHS.join(', ')}`);
+  }
+  if (!includes(HAIR_TEXTURES, entry.texture)) {
+    problems.push(`"texture" must be one of ${HAIR_TEXTURES.join(', ')}`);
+  }
+  if (!isStringArray(entry.tags)) {
+    problems.push('"tags" must be a list of strings');
+  }
+  if (!isStringArray(entry.faceShapes) || !entry.faceShapes.every(s => includes(FACE_SHAPES, s))) {
+    problems.push(`"faceShapes" may only contain ${FACE_SHAPES.join(', ')}`);
+  }
+
+  return problems;
+}
+
+/**
+ * Validate the hairstyle manifest, failing loudly on the first bad entry so a
+ * broken data change is caught at startup rather than in the middle of a request
+ */
+function parseCatalog(entries: unknown): Hairstyle[] {
+  if (!Array.isArray(entries)) {
+    throw new Error('Hairstyle manifest must be a list of hairstyles');
+  }
+
+  const ids = new Set<string>();
+  entries.forEach((entry, index) => {
+    const problems =
+      typeof entry === 'object' && entry !== null
+        ? validateEntry(entry as Record<string, unknown>)
+        : ['entry must be an object'];
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid hairstyle at index ${index}: ${problems.join('; ')}`);
+    }
+    if (ids.has(entry.id)) {
+      throw new Error(`Duplicate hairstyle id "${entry.id}"`);
+    }
+    ids.add(entry.id);
+  });
+
+  return entries as Hairstyle[];
+}
+
+const catalog = parseCatalog(manifest);
+const catalogById = new Map(catalog.map(style => [style.id, style]));
+
+/**
+ * Every hairstyle in the catalog, in display order
+ */
+export function getHairstyles(): Hairstyle[] {
+  return catalog;
+}
+
+export function getHairstyle(id: string): Hairstyle | null {
+  return catalogById.get(id) ?? null;
+}
+
+// Reference images encoded as data URIs, keyed by hairstyle id
+const globalForImages = globalThis as unknown as { hairstyleImages?: Map<string, Promise<string>> };
+const referenceImages = (globalForImages.hairstyleImages ??= new Map<string, Promise<string>>());
+
+/**
+ * The hairstyle's reference image as a data URI, read from `public/` once and cached
+ */
+export function getHairstyleReferenceImage(hairstyle: Hairstyle): Promise<string> {
+  let image = referenceImages.get(hairstyle.id);
+
+  if (!image) {
+    const extension = hairstyle.image.slice(hairstyle.image.lastIndexOf('.') + 1);
+    image = fs
+      .readFile(path.join(process.cwd(), 'public', hairstyle.image))
+      .then(data => `data:${IMAGE_MIME_TYPES[extension]};base64,${data.toString('base64')}`);
+    // Don't cache failures, so a missing file can be fixed without a restart
+    image.catch(() => referenceImages.delete(hairstyle.id));
+    referenceImages.set(hairstyle.id, image);
+  }
+
+  return image;
+}
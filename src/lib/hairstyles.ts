@@ -0,0 +1,31 @@
+import type { FaceShape } from '@/lib/face-geometry';
+
+export const HAIR_LENGTHS = ['short', 'medium', 'long'] as const;
+export const HAIR_TEXTURES = ['straight', 'wavy', 'curly'] as const;
+
+export type HairLength = (typeof HAIR_LENGTHS)[number];
+export type HairTexture = (typeof HAIR_TEXTURES)[number];
+
+/**
+ * A hairstyle users can try on, as listed in `src/data/hairstyles.json`
+ */
+export type Hairstyle = {
+  id: string;
+  name: string;
+  // Reference image served from `public/`
+  image: string;
+  // Generation prompt, where IMG_1 is the selfie and IMG_2 the reference image
+  prompt: string;
+  length: HairLength;
+  texture: HairTexture;
+  tags: string[];
+  // Face shapes this style flatters, used for recommendations
+  faceShapes: FaceShape[];
+};
+
+/**
+ * IDs of the hairstyles suited to a face shape, in catalog order
+ */
+export function getRecommendedHairstyleIds(hairstyles: Hairstyle[], faceShape: FaceShape) {
+  return hairstyles.filter(style => style.faceShapes.includes(faceShape)).map(style => style.id);
+}
@@ -0,0 +1,147 @@
+/**
+ * A makeover remembered in the browser
+ */
+export type HistoryEntry = {
+  // The generation task, which also identifies the entry
+  id: string;
+  hairstyleId: string;
+  prompt: string | null;
+  // Stable result URLs, see `/api/results/[id]`
+  outputs: string[];
+  // The selfie as submitted, so the makeover can be compared and run again
+  selfie: Blob;
+  selfieThumbnail: Blob;
+  favourite: boolean;
+  createdAt: string;
+};
+
+const DB_NAME = 'hair-makeover';
+const DB_VERSION = 1;
+const STORE_NAME = 'history';
+
+// Beyond either limit the oldest entries go first, favourites last
+export const MAX_HISTORY_ENTRIES = 50;
+export const MAX_HISTORY_BYTES = 50 * 1024 * 1024;
+
+export function isHistoryAvailable() {
+  return typeof indexedDB !== 'undefined';
+}
+
+function toPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex('createdAt', 'createdAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(error => {
+    // Let a later call try again, e.g. after the user allowed storage
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+}
+
+function entrySize(entry: HistoryEntry) {
+  return entry.selfie.size + entry.selfieThumbnail.size;
+}
+
+/**
+ * Every entry, newest first
+ */
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const db = await openDb();
+  const entries = await toPromise<HistoryEntry[]>(
+    db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll()
+  );
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Entries to drop so the rest fit within the limits: oldest first, favourites only
+ * when the other entries are not enough
+ */
+function selectEvictions(entries: HistoryEntry[]) {
+  const byPriority = [...entries].sort(
+    (a, b) => Number(b.favourite) - Number(a.favourite) || b.createdAt.localeCompare(a.createdAt)
+  );
+
+  let bytes = 0;
+  return byPriority.filter((entry, index) => {
+    bytes += entrySize(entry);
+    return index >= MAX_HISTORY_ENTRIES || bytes > MAX_HISTORY_BYTES;
+  });
+}
+
+/**
+ * Add or replace an entry, then trim the history to its limits
+ */
+export async function saveHistoryEntry(entry: HistoryEntry) {
+  const db = await openDb();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+
+  store.put(entry);
+  const entries = await toPromise<HistoryEntry[]>(store.getAll());
+  selectEvictions(entries).forEach(evicted => store.delete(evicted.id));
+
+  await transactionDone(transaction);
+}
+
+/**
+ * Merge a change into an entry, if it still exists
+ */
+export async function updateHistoryEntry(id: string, patch: Partial<Omit<HistoryEntry, 'id'>>) {
+  const db = await openDb();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+
+  const entry = await toPromise<HistoryEntry | undefined>(store.get(id));
+  if (entry) store.put({ ...entry, ...patch, id });
+
+  await transactionDone(transaction);
+}
+
+export async function deleteHistoryEntry(id: string) {
+  const db = await openDb();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  transaction.objectStore(STORE_NAME).delete(id);
+  await transactionDone(transaction);
+}
+
+/**
+ * Remove the whole history database from this browser
+ */
+export async function clearHistory() {
+  if (dbPromise) {
+    (await dbPromise.catch(() => null))?.close();
+    dbPromise = null;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    // Another tab still has it open; it is deleted once that tab lets go
+    request.onblocked = () => resolve();
+  });
+}
@@ -0,0 +1,44 @@
+import { createJsonFile } from '@/lib/json-file';
+import type { IdempotencyRecord, IdempotencyStore } from './types';
+
+type IdempotencyFileData = {
+  records: Record<string, IdempotencyRecord>;
+};
+
+/**
+ * Idempotency store persisted to a JSON file, so replays keep working across restarts.
+ * Expired keys are dropped whenever a new one is claimed.
+ */
+export function createFileIdempotencyStore(filePath: string): IdempotencyStore {
+  const file = createJsonFile<IdempotencyFileData>(filePath, () => ({ records: {} }));
+
+  return {
+    async claim(record) {
+      return file.update(data => {
+        const now = Date.now();
+        for (const [key, existing] of Object.entries(data.records)) {
+          if (existing.expiresAt <= now) delete data.records[key];
+        }
+
+        const existing = data.records[record.key];
+        if (existing) return structuredClone(existing);
+
+        data.records[record.key] = structuredClone(record);
+        return null;
+      });
+    },
+
+    async complete(key, response, expiresAt) {
+      await file.update(data => {
+        const record = data.records[key];
+        if (record) Object.assign(record, { response: structuredClone(response), expiresAt });
+      });
+    },
+
+    async release(key) {
+      await file.update(data => {
+        delete data.records[key];
+      });
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import { getDataDir } from '@/lib/json-file';
+import path from 'path';
+import { createFileIdempotencyStore } from './file';
+import { createMemoryIdempotencyStore } from './memory';
+import type { IdempotencyStore } from './types';
+
+export * from './types';
+
+// Keep the store on globalThis so it survives module reloads in development
+const globalForStore = globalThis as unknown as { idempotencyStore?: IdempotencyStore };
+
+/**
+ * Idempotency store, kept alongside the task registry: in memory when `TASK_STORE=memory`,
+ * otherwise in `idempotency.json` in the data directory
+ */
+export function getIdempotencyStore(): IdempotencyStore {
+  if (!globalForStore.idempotencyStore) {
+    const kind = (process.env.TASK_STORE || 'file').toLowerCase();
+
+    globalForStore.idempotencyStore =
+      kind === 'memory'
+        ? createMemoryIdempotencyStore()
+        : createFileIdempotencyStore(path.join(getDataDir(), 'idempotency.json'));
+  }
+
+  return globalForStore.idempotencyStore;
+}
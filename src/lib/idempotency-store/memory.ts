@@ -0,0 +1,32 @@
+import type { IdempotencyRecord, IdempotencyStore } from './types';
+
+/**
+ * Idempotency store kept in process memory. Keys are forgotten on restart.
+ */
+export function createMemoryIdempotencyStore(): IdempotencyStore {
+  const records = new Map<string, IdempotencyRecord>();
+
+  return {
+    async claim(record) {
+      const now = Date.now();
+      records.forEach((existing, key) => {
+        if (existing.expiresAt <= now) records.delete(key);
+      });
+
+      const existing = records.get(record.key);
+      if (existing) return structuredClone(existing);
+
+      records.set(record.key, structuredClone(record));
+      return null;
+    },
+
+    async complete(key, response, expiresAt) {
+      const record = records.get(key);
+      if (record) Object.assign(record, { response: structuredClone(response), expiresAt });
+    },
+
+    async release(key) {
+      records.delete(key);
+    },
+  };
+}
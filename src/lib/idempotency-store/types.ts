@@ -0,0 +1,25 @@
+/**
+ * A request made under an `Idempotency-Key`. The response is set once the
+ * request has completed; until then the key is held by the request in flight.
+ */
+export type IdempotencyRecord = {
+  key: string;
+  // SHA-256 of the request, so a key reused for a different request can be told apart
+  requestHash: string;
+  response?: {
+    status: number;
+    body: unknown;
+  };
+  createdAt: string;
+  // Milliseconds since the epoch after which the key is free again
+  expiresAt: number;
+};
+
+export type IdempotencyStore = {
+  /** Take a key for a new request, or return the unexpired record already holding it */
+  claim(record: IdempotencyRecord): Promise<IdempotencyRecord | null>;
+  /** Store the response of a claimed key and keep it until `expiresAt` */
+  complete(key: string, response: IdempotencyRecord['response'], expiresAt: number): Promise<void>;
+  /** Free a claimed key, so the request can be tried again */
+  release(key: string): Promise<void>;
+};
@@ -0,0 +1,124 @@
+import { ApiError } from '@/lib/api-errors';
+import type { Principal } from '@/lib/auth';
+import { readNumberEnv } from '@/lib/env';
+import { ErrorCode } from '@/lib/error-codes';
+import { getIdempotencyStore } from '@/lib/idempotency-store';
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// How long a completed request is replayed for its key
+const IDEMPOTENCY_TTL_MS = readNumberEnv('IDEMPOTENCY_TTL_SECONDS', 24 * 60 * 60) * 1000;
+// How long a key stays held by a request that never completes, e.g. after a crash
+const PENDING_TIMEOUT_MS = 2 * 60 * 1000;
+// Keys must be short printable ASCII, such as a UUID
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+// Suggested wait before repeating a request whose key is still in use
+const IN_USE_RETRY_AFTER_MS = 1000;
+
+/**
+ * A request that may be made under an idempotency key
+ */
+export type IdempotentRequest = {
+  // Response of an earlier request with the same key, to return as is
+  replay: NextResponse | null;
+  /** Respond with JSON, remembering the response for the key */
+  respond(body: unknown, status?: number): Promise<NextResponse>;
+  /** Free the key after a failure, so the request can be made again */
+  release(): Promise<void>;
+};
+
+/**
+ * JSON with object keys sorted, so equal bodies hash the same whatever their key order
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+const notIdempotent: IdempotentRequest = {
+  replay: null,
+  respond: async (body, status = 200) => NextResponse.json(body, { status }),
+  release: async () => {},
+};
+
+/**
+ * Honour the `Idempotency-Key` header of a request, if any. A repeated key gets the
+ * response of the first request back; a key reused with a different body is rejected,
+ * and so is one whose first request is still being handled.
+ * Keys are scoped to the caller, so callers cannot collide with each other.
+ */
+export async function startIdempotentRequest(
+  req: NextRequest,
+  principal: Principal,
+  body: unknown
+): Promise<IdempotentRequest> {
+  const header = req.headers.get(IDEMPOTENCY_HEADER);
+  if (header === null) return notIdempotent;
+
+  if (!KEY_PATTERN.test(header)) {
+    throw new ApiError(
+      400,
+      ErrorCode.INVALID_REQUEST,
+      `${IDEMPOTENCY_HEADER} must be 1 to 255 printable ASCII characters`,
+      { field: IDEMPOTENCY_HEADER }
+    );
+  }
+
+  const key = `${principal.id}:${req.nextUrl.pathname}:${header}`;
+  const requestHash = createHash('sha256').update(stableStringify(body)).digest('hex');
+  const store = getIdempotencyStore();
+
+  const existing = await store.claim({
+    key,
+    requestHash,
+    createdAt: new Date().toISOString(),
+    expiresAt: Date.now() + PENDING_TIMEOUT_MS,
+  });
+
+  if (existing) {
+    if (existing.requestHash !== requestHash) {
+      throw new ApiError(
+        422,
+        ErrorCode.IDEMPOTENCY_KEY_REUSED,
+        `${IDEMPOTENCY_HEADER} was already used for a different request`,
+        { field: IDEMPOTENCY_HEADER }
+      );
+    }
+    if (!existing.response) {
+      throw new ApiError(
+        409,
+        ErrorCode.IDEMPOTENCY_KEY_IN_USE,
+        'A request with this idempotency key is still being processed',
+        { field: IDEMPOTENCY_HEADER },
+        IN_USE_RETRY_AFTER_MS
+      );
+    }
+
+    const replay = NextResponse.json(existing.response.body, { status: existing.response.status });
+    replay.headers.set('Idempotent-Replayed', 'true');
+    return { ...notIdempotent, replay };
+  }
+
+  return {
+    replay: null,
+
+    async respond(responseBody, status = 200) {
+      await store
+        .complete(key, { status, body: responseBody }, Date.now() + IDEMPOTENCY_TTL_MS)
+        .catch(error => console.error('Failed to store idempotent response:', error));
+      return NextResponse.json(responseBody, { status });
+    },
+
+    async release() {
+      await store
+        .release(key)
+        .catch(error => console.error('Failed to release idempotency key:', error));
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import type { Framing } from '@/lib/face-framing';
+
+// Larger crops are scaled down; the server normalizes to its own limit anyway
+const MAX_CROP_SIZE = 2048;
+const JPEG_QUALITY = 0.92;
+
+function loadImage(url: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = url;
+  });
+}
+
+/**
+ * Cut the framed square out of a photo in the browser, returning it as a JPEG file
+ */
+export async function cropImageFile(file: File, framing: Framing): Promise<File> {
+  const url = URL.createObjectURL(file);
+
+  try {
+    const img = await loadImage(url);
+    const size = Math.round(Math.min(framing.size, MAX_CROP_SIZE));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not supported');
+    }
+    context.drawImage(img, framing.x, framing.y, framing.size, framing.size, 0, 0, size, size);
+
+    const blob = await new Promise<Blob | null>(resolve =>
+      canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY)
+    );
+    if (!blob) {
+      throw new Error('Failed to encode the cropped image');
+    }
+
+    const name = file.name.replace(/\.[^.]*$/, '') || 'selfie';
+    return new File([blob], `${name}-framed.jpg`, { type: 'image/jpeg' });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Scale an image down to fit a square of `maxSize` pixels, returning it as a JPEG blob
+ */
+export async function createThumbnail(image: Blob, maxSize: number): Promise<Blob> {
+  const url = URL.createObjectURL(image);
+
+  try {
+    const img = await loadImage(url);
+    const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not supported');
+    }
+    context.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob | null>(resolve =>
+      canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY)
+    );
+    if (!blob) {
+      throw new Error('Failed to encode the thumbnail');
+    }
+    return blob;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,186 @@
+import { ApiError } from '@/lib/api-errors';
+import { readNumberEnv } from '@/lib/env';
+import { ErrorCode } from '@/lib/error-codes';
+import { IMAGE_MIME_TYPES, probeImage, type ImageFormat } from '@/lib/image-probe';
+
+/**
+ * An image supplied by a caller, checked and held in memory
+ */
+export type ImageInput = {
+  format: ImageFormat;
+  mimeType: string;
+  data: Buffer;
+  width: number;
+  height: number;
+};
+
+export const MAX_IMAGE_BYTES = readNumberEnv('MAX_IMAGE_BYTES', 10 * 1024 * 1024);
+const MAX_IMAGE_DIMENSION = readNumberEnv('MAX_IMAGE_DIMENSION', 8192);
+const MIN_IMAGE_DIMENSION = readNumberEnv('MIN_IMAGE_DIMENSION', 64);
+const IMAGE_FETCH_TIMEOUT_MS = readNumberEnv('IMAGE_FETCH_TIMEOUT_MS', 10000);
+
+const DATA_URI_PATTERN = /^data:([^;,]+);base64,/i;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+const SUPPORTED_MIME_TYPES = Object.values(IMAGE_MIME_TYPES);
+
+/**
+ * Hosts that callers may point image URLs at, from the comma-separated `ALLOWED_IMAGE_HOSTS`
+ */
+function getAllowedHosts() {
+  return (process.env.ALLOWED_IMAGE_HOSTS ?? '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function invalid(field: string, message: string) {
+  return new ApiError(400, ErrorCode.INVALID_REQUEST, message, { field });
+}
+
+function tooLarge(field: string, message: string) {
+  return new ApiError(413, ErrorCode.PAYLOAD_TOO_LARGE, message, { field });
+}
+
+function unsupported(field: string, message: string) {
+  return new ApiError(415, ErrorCode.UNSUPPORTED_MEDIA_TYPE, message, {
+    field,
+    supported: SUPPORTED_MIME_TYPES,
+  });
+}
+
+function checkMimeType(field: string, mimeType: string) {
+  if (!SUPPORTED_MIME_TYPES.includes(mimeType)) {
+    throw unsupported(field, `${field} must be a JPEG, PNG or WebP image, got ${mimeType}`);
+  }
+}
+
+function decodeDataUri(field: string, uri: string, mimeType: string) {
+  checkMimeType(field, mimeType);
+
+  const encoded = uri.slice(uri.indexOf(',') + 1);
+  // Check the size before decoding so an oversized payload is never allocated
+  if (Math.floor((encoded.length * 3) / 4) > MAX_IMAGE_BYTES + 2) {
+    throw tooLarge(field, `${field} must not exceed ${MAX_IMAGE_BYTES} bytes`);
+  }
+  if (!BASE64_PATTERN.test(encoded)) {
+    throw invalid(field, `${field} is not valid base64`);
+  }
+
+  const data = Buffer.from(encoded, 'base64');
+  if (data.length > MAX_IMAGE_BYTES) {
+    throw tooLarge(field, `${field} must not exceed ${MAX_IMAGE_BYTES} bytes`);
+  }
+  return data;
+}
+
+/**
+ * Download an image from an allowlisted host. Redirects are refused so the
+ * allowlist cannot be sidestepped by a host that bounces us somewhere else.
+ */
+async function downloadImage(field: string, url: URL) {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      redirect: 'error',
+      signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS),
+    });
+  } catch {
+    throw invalid(field, `${field} could not be downloaded`);
+  }
+
+  if (!response.ok || !response.body) {
+    throw invalid(field, `${field} could not be downloaded (HTTP ${response.status})`);
+  }
+
+  const mimeType = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+  checkMimeType(field, mimeType);
+
+  if (Number(response.headers.get('content-length')) > MAX_IMAGE_BYTES) {
+    throw tooLarge(field, `${field} must not exceed ${MAX_IMAGE_BYTES} bytes`);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > MAX_IMAGE_BYTES) {
+      await reader.cancel();
+      throw tooLarge(field, `${field} must not exceed ${MAX_IMAGE_BYTES} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  return { data: Buffer.concat(chunks), mimeType };
+}
+
+function parseAllowedUrl(field: string, value: string) {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw invalid(field, `${field} must be a base64 data URI or an https URL`);
+  }
+
+  // Only plain https URLs on the configured hosts, so callers can't reach internal services
+  if (
+    url.protocol !== 'https:' ||
+    url.username ||
+    url.password ||
+    url.port ||
+    !getAllowedHosts().includes(url.hostname)
+  ) {
+    throw invalid(field, `${field} must be a base64 data URI or an https URL on an allowed host`);
+  }
+  return url;
+}
+
+/**
+ * Validate an image given as a `data:image/...;base64,` URI or an https URL on an
+ * allowlisted host. The image is loaded, its real format checked against the
+ * declared one and its dimensions bounded.
+ */
+export async function loadImageInput(field: string, value: unknown): Promise<ImageInput> {
+  if (typeof value !== 'string' || !value) {
+    throw invalid(field, `${field} is required`);
+  }
+
+  const dataUriMatch = DATA_URI_PATTERN.exec(value);
+  const { data, mimeType } = dataUriMatch
+    ? {
+        data: decodeDataUri(field, value, dataUriMatch[1].toLowerCase()),
+        mimeType: dataUriMatch[1].toLowerCase(),
+      }
+    : await downloadImage(field, parseAllowedUrl(field, value));
+
+  const info = probeImage(data);
+  if (!info) {
+    throw unsupported(field, `${field} is not a valid JPEG, PNG or WebP image`);
+  }
+  if (IMAGE_MIME_TYPES[info.format] !== mimeType) {
+    throw unsupported(field, `${field} is declared as ${mimeType} but contains ${info.format}`);
+  }
+
+  const { width, height } = info;
+  if (Math.max(width, height) > MAX_IMAGE_DIMENSION) {
+    throw tooLarge(
+      field,
+      `${field} is ${width}x${height}, images may be at most ${MAX_IMAGE_DIMENSION}px on each side`
+    );
+  }
+  if (Math.min(width, height) < MIN_IMAGE_DIMENSION) {
+    throw invalid(
+      field,
+      `${field} is ${width}x${height}, images must be at least ${MIN_IMAGE_DIMENSION}px on each side`
+    );
+  }
+
+  return { format: info.format, mimeType, data, width, height };
+}
+
+export function toDataUri({ mimeType, data }: Pick<ImageInput, 'mimeType' | 'data'>) {
+  return `data:${mimeType};base64,${data.toString('base64')}`;
+}
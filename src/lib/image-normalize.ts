@@ -0,0 +1,101 @@
+import { readNumberEnv } from '@/lib/env';
+import type { ImageInput } from '@/lib/image-input';
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+
+export type ImageFit = 'crop' | 'pad';
+
+export type NormalizeOptions = {
+  // Target aspect ratio as "width:height", e.g. OUTPUT_RATIO
+  ratio: string;
+  maxEdge: number;
+  fit: ImageFit;
+};
+
+/**
+ * A selfie after preprocessing, in the exact form it is submitted to the provider
+ */
+export type NormalizedImage = {
+  data: Buffer;
+  mimeType: string;
+  width: number;
+  height: number;
+  sha256: string;
+};
+
+const DEFAULT_MAX_EDGE = 1536;
+const JPEG_QUALITY = 90;
+// Background used when padding, chosen to match the studio backdrop of the reference images
+const PAD_BACKGROUND = '#ffffff';
+
+/**
+ * Preprocessing settings from `IMAGE_MAX_EDGE` and `IMAGE_FIT` ("crop" or "pad")
+ */
+export function getNormalizeOptions(ratio: string): NormalizeOptions {
+  const fit = (process.env.IMAGE_FIT || 'crop').toLowerCase();
+  if (fit !== 'crop' && fit !== 'pad') {
+    throw new Error(`Unknown IMAGE_FIT "${fit}", expected "crop" or "pad"`);
+  }
+  return { ratio, maxEdge: readNumberEnv('IMAGE_MAX_EDGE', DEFAULT_MAX_EDGE), fit };
+}
+
+function parseRatio(ratio: string) {
+  const [width, height] = ratio.split(':').map(Number);
+  if (!(width > 0 && height > 0)) {
+    throw new Error(`Invalid aspect ratio "${ratio}"`);
+  }
+  return width / height;
+}
+
+/**
+ * Output size for an image: the largest box of the target aspect ratio that fits
+ * inside it (crop) or the smallest that contains it (pad), scaled down to `maxEdge`.
+ * Images are never scaled up.
+ */
+function getTargetSize(width: number, height: number, { ratio, maxEdge, fit }: NormalizeOptions) {
+  const aspect = parseRatio(ratio);
+  const boxWidth =
+    fit === 'crop' ? Math.min(width, height * aspect) : Math.max(width, height * aspect);
+  const boxHeight = boxWidth / aspect;
+  const scale = Math.min(1, maxEdge / Math.max(boxWidth, boxHeight));
+
+  return {
+    width: Math.max(1, Math.round(boxWidth * scale)),
+    height: Math.max(1, Math.round(boxHeight * scale)),
+  };
+}
+
+/**
+ * Bring a caller's image into a predictable shape before submission: apply its
+ * EXIF orientation, drop all metadata, fit it to the target aspect ratio and
+ * size, and re-encode it as JPEG. The same input and options always produce
+ * the same bytes.
+ */
+export async function normalizeImage(
+  image: ImageInput,
+  options: NormalizeOptions
+): Promise<NormalizedImage> {
+  // Frame using the dimensions as displayed, after the EXIF orientation is applied
+  const { autoOrient } = await sharp(image.data).metadata();
+  const target = getTargetSize(autoOrient.width, autoOrient.height, options);
+
+  const { data, info } = await sharp(image.data)
+    .autoOrient()
+    .resize(target.width, target.height, {
+      fit: options.fit === 'crop' ? 'cover' : 'contain',
+      // Crop around the most salient region, which for a selfie is the face
+      position: options.fit === 'crop' ? sharp.strategy.attention : 'centre',
+      background: PAD_BACKGROUND,
+    })
+    .flatten({ background: PAD_BACKGROUND })
+    .jpeg({ quality: JPEG_QUALITY })
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    data,
+    mimeType: 'image/jpeg',
+    width: info.width,
+    height: info.height,
+    sha256: createHash('sha256').update(data).digest('hex'),
+  };
+}
@@ -0,0 +1,84 @@
+export type ImageFormat = 'jpeg' | 'png' | 'webp';
+
+export type ImageInfo = {
+  format: ImageFormat;
+  width: number;
+  height: number;
+};
+
+export const IMAGE_MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function startsWith(data: Buffer, bytes: number[], offset = 0) {
+  return bytes.every((byte, index) => data[offset + index] === byte);
+}
+
+function probePng(data: Buffer): ImageInfo | null {
+  // The IHDR chunk always comes first, right after the signature
+  if (data.length < 24 || data.toString('latin1', 12, 16) !== 'IHDR') return null;
+  return { format: 'png', width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+function probeJpeg(data: Buffer): ImageInfo | null {
+  let offset = 2;
+
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+
+    const marker = data[offset + 1];
+    // Start-of-frame markers carry the dimensions; C4, C8 and CC are other tables
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return {
+        format: 'jpeg',
+        height: data.readUInt16BE(offset + 5),
+        width: data.readUInt16BE(offset + 7),
+      };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+
+  return null;
+}
+
+function probeWebp(data: Buffer): ImageInfo | null {
+  if (data.length < 30) return null;
+
+  const chunk = data.toString('latin1', 12, 16);
+  if (chunk === 'VP8 ') {
+    return {
+      format: 'webp',
+      width: data.readUInt16LE(26) & 0x3fff,
+      height: data.readUInt16LE(28) & 0x3fff,
+    };
+  }
+  if (chunk === 'VP8L') {
+    const bits = data.readUInt32LE(21);
+    return { format: 'webp', width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X') {
+    return {
+      format: 'webp',
+      width: data.readUIntLE(24, 3) + 1,
+      height: data.readUIntLE(27, 3) + 1,
+    };
+  }
+  return null;
+}
+
+/**
+ * Identify a JPEG, PNG or WebP image from its header, without decoding it.
+ * Returns null for anything else, including truncated or malformed headers.
+ */
+export function probeImage(data: Buffer): ImageInfo | null {
+  if (startsWith(data, PNG_SIGNATURE)) return probePng(data);
+  if (startsWith(data, [0xff, 0xd8])) return probeJpeg(data);
+  if (data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') {
+    return probeWebp(data);
+  }
+  return null;
+}
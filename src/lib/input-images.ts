@@ -0,0 +1,41 @@
+import { getDataDir } from '@/lib/json-file';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+/**
+ * Directory holding submitted input images, `INPUT_IMAGE_DIR` or `inputs` in the data directory
+ */
+function getInputImageDir() {
+  return path.resolve(process.env.INPUT_IMAGE_DIR || path.join(getDataDir(), 'inputs'));
+}
+
+export function getInputImagePath(sha256: string, mimeType: string) {
+  return path.join(getInputImageDir(), `${sha256}.${EXTENSIONS[mimeType] ?? 'bin'}`);
+}
+
+/**
+ * Keep a copy of an image exactly as it was submitted, named after its hash so
+ * identical images are stored once. Returns the file path.
+ */
+export async function saveInputImage(image: { data: Buffer; mimeType: string; sha256: string }) {
+  const filePath = getInputImagePath(image.sha256, image.mimeType);
+
+  try {
+    await fs.access(filePath);
+    return filePath;
+  } catch {
+    // Not stored yet
+  }
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, image.data);
+  await fs.rename(tempPath, filePath);
+  return filePath;
+}
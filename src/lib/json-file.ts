@@ -0,0 +1,61 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type JsonFile<T> = {
+  read(): Promise<T>;
+  /** Apply a mutation and persist the result. Updates are serialized in call order. */
+  update<R>(mutate: (data: T) => R | Promise<R>): Promise<R>;
+};
+
+/**
+ * Small JSON document persisted on disk.
+ *
+ * The document is loaded once and kept in memory; every update rewrites the
+ * file atomically (write to a temporary file, then rename) so a crash never
+ * leaves a half-written file behind.
+ */
+export function createJsonFile<T>(filePath: string, createInitial: () => T): JsonFile<T> {
+  let data: Promise<T> | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = () => {
+    data ??= fs
+      .readFile(filePath, 'utf8')
+      .then(contents => JSON.parse(contents) as T)
+      .catch(error => {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return createInitial();
+        throw error;
+      });
+    return data;
+  };
+
+  const persist = async (value: T) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(value, null, 2));
+    await fs.rename(tempPath, filePath);
+  };
+
+  return {
+    read: load,
+
+    update(mutate) {
+      const run = queue.then(async () => {
+        const value = await load();
+        const result = await mutate(value);
+        await persist(value);
+        return result;
+      });
+      // Keep the queue going even if this update fails
+      queue = run.catch(() => undefined);
+      return run;
+    },
+  };
+}
+
+/**
+ * Directory where file-backed stores keep their data
+ */
+export function getDataDir() {
+  return path.resolve(process.env.DATA_DIR || '.data');
+}
@@ -0,0 +1,30 @@
+/**
+ * Calendar periods that quotas and budgets reset on, in UTC
+ */
+export type Period = 'daily' | 'monthly';
+
+export const PERIODS: Period[] = ['daily', 'monthly'];
+
+export function isPeriod(value: unknown): value is Period {
+  return PERIODS.includes(value as Period);
+}
+
+/**
+ * Start of the UTC day or month containing `now`
+ */
+export function getPeriodStart(period: Period, now: number) {
+  const date = new Date(now);
+  return period === 'daily'
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+/**
+ * End of the UTC day or month containing `now`
+ */
+export function getPeriodEnd(period: Period, now: number) {
+  const date = new Date(now);
+  return period === 'daily'
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
@@ -0,0 +1,54 @@
+import { ApiError } from '@/lib/api-errors';
+import { ErrorCode } from '@/lib/error-codes';
+import { readNumberEnv } from '@/lib/env';
+import { createMockProvider, DEFAULT_QUEUE_MS, DEFAULT_RUN_MS } from './mock';
+import { createRunwayProvider } from './runway';
+import type { GenerationProvider } from './types';
+
+export * from './types';
+
+export type GenerationProviderName = 'runway' | 'mock';
+
+const PROVIDER_NAMES: GenerationProviderName[] = ['runway', 'mock'];
+
+/**
+ * Read the configured provider name from `GENERATION_PROVIDER`, defaulting to Runway
+ */
+export function getGenerationProviderName(): GenerationProviderName {
+  const name = (process.env.GENERATION_PROVIDER || 'runway').toLowerCase();
+
+  if (!PROVIDER_NAMES.includes(name as GenerationProviderName)) {
+    throw new ApiError(
+      500,
+      ErrorCode.PROVIDER_NOT_CONFIGURED,
+      `Unknown GENERATION_PROVIDER "${name}", expected one of: ${PROVIDER_NAMES.join(', ')}`
+    );
+  }
+
+  return name as GenerationProviderName;
+}
+
+/**
+ * Create the generation provider selected by the environment configuration
+ */
+export function getGenerationProvider(): GenerationProvider {
+  const name = getGenerationProviderName();
+
+  if (name === 'mock') {
+    return createMockProvider({
+      queueMs: readNumberEnv('MOCK_PROVIDER_QUEUE_MS', DEFAULT_QUEUE_MS),
+      runMs: readNumberEnv('MOCK_PROVIDER_RUN_MS', DEFAULT_RUN_MS),
+    });
+  }
+
+  const apiKey = process.env.RUNWAY_API_KEY;
+  if (!apiKey) {
+    throw new ApiError(
+      500,
+      ErrorCode.PROVIDER_NOT_CONFIGURED,
+      'RUNWAY_API_KEY environment variable is not set'
+    );
+  }
+
+  return createRunwayProvider(apiKey);
+}
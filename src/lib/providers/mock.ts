@@ -0,0 +1,169 @@
+import { ApiError } from '@/lib/api-errors';
+import { ErrorCode } from '@/lib/error-codes';
+import { createHash } from 'crypto';
+import {
+  isTerminalStatus,
+  type CreateTaskInput,
+  type GenerationProvider,
+  type GenerationTask,
+} from './types';
+
+type MockProviderOptions = {
+  // Time a task stays PENDING before it starts RUNNING
+  queueMs?: number;
+  // Time a task stays RUNNING before it reaches a terminal state
+  runMs?: number;
+};
+
+type MockTask = {
+  id: string;
+  input: CreateTaskInput;
+  createdAt: number;
+  fails: boolean;
+  cancelled: boolean;
+};
+
+// Prompts containing this marker end in FAILED, so error handling can be exercised on demand
+export const MOCK_FAILURE_MARKER = '[mock:fail]';
+
+export const DEFAULT_QUEUE_MS = 1500;
+export const DEFAULT_RUN_MS = 6000;
+
+// Keep tasks on globalThis so they survive module reloads in development
+const globalForMock = globalThis as unknown as {
+  mockProviderTasks?: Map<string, MockTask>;
+  mockProviderSequence?: number;
+};
+const tasks = (globalForMock.mockProviderTasks ??= new Map<string, MockTask>());
+
+/**
+ * Offline provider that simulates the Runway task lifecycle.
+ *
+ * Task status is derived from the time elapsed since creation, so repeated
+ * polls walk through PENDING → RUNNING → SUCCEEDED/FAILED like the real API.
+ * Successful tasks return a placeholder composited from the reference images.
+ */
+export function createMockProvider(options: MockProviderOptions = {}): GenerationProvider {
+  const { queueMs = DEFAULT_QUEUE_MS, runMs = DEFAULT_RUN_MS } = options;
+
+  const findTask = (taskId: string) => {
+    const task = tasks.get(taskId);
+    if (!task) {
+      throw new ApiError(404, ErrorCode.TASK_NOT_FOUND, 'Task not found or already processed.');
+    }
+    return task;
+  };
+
+  const snapshot = (task: MockTask): GenerationTask => {
+    const elapsed = Date.now() - task.createdAt;
+    const base = { id: task.id, createdAt: new Date(task.createdAt).toISOString() };
+
+    if (task.cancelled) {
+      return { ...base, status: 'CANCELLED' };
+    }
+    if (elapsed < queueMs) {
+      return { ...base, status: 'PENDING' };
+    }
+    if (elapsed < queueMs + runMs) {
+      const progress = Math.round(((elapsed - queueMs) / runMs) * 100) / 100;
+      return { ...base, status: 'RUNNING', progress };
+    }
+    if (task.fails) {
+      return {
+        ...base,
+        status: 'FAILED',
+        failure: 'Mock provider was asked to fail this task',
+        failureCode: 'INTERNAL.MOCK_FAILURE',
+      };
+    }
+    return { ...base, status: 'SUCCEEDED', output: [compositePlaceholder(task)] };
+  };
+
+  return {
+    name: 'mock',
+
+    async createTask(input) {
+      const sequence = (globalForMock.mockProviderSequence ?? 0) + 1;
+      globalForMock.mockProviderSequence = sequence;
+      const createdAt = Date.now();
+
+      // Include the creation time so IDs stay unique across restarts, like persisted records expect
+      const id = formatTaskId(
+        createHash('sha256')
+          .update(JSON.stringify(input))
+          .update(`${sequence}:${createdAt}`)
+          .digest('hex')
+      );
+
+      tasks.set(id, {
+        id,
+        input,
+        createdAt,
+        fails: input.promptText.includes(MOCK_FAILURE_MARKER),
+        cancelled: false,
+      });
+
+      return { id };
+    },
+
+    async getTask(taskId) {
+      return snapshot(findTask(taskId));
+    },
+
+    async cancelTask(taskId) {
+      const task = findTask(taskId);
+
+      // Like Runway, cancelling a finished task deletes it
+      if (isTerminalStatus(snapshot(task).status)) {
+        tasks.delete(taskId);
+      } else {
+        task.cancelled = true;
+      }
+    },
+  };
+}
+
+// Format a hex digest as a UUID so mock IDs look like Runway task IDs
+function formatTaskId(hex: string) {
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20, 32),
+  ].join('-');
+}
+
+function escapeAttribute(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * Build an SVG data URI that places the first reference image full-bleed and
+ * the second one as a circular inset, labelled as a mock result
+ */
+function compositePlaceholder(task: MockTask) {
+  const [width, height] = task.input.ratio.split(':').map(Number);
+  const [subject, reference] = task.input.referenceImages;
+  const inset = Math.round(Math.min(width, height) * 0.3);
+  const margin = Math.round(inset * 0.1);
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" fill="#E4E5E6"/>`,
+    subject
+      ? `<image href="${escapeAttribute(subject.uri)}" width="${width}" height="${height}" preserveAspectRatio="xMidYMid slice"/>`
+      : '',
+    reference
+      ? [
+          `<clipPath id="inset"><circle cx="${width - margin - inset / 2}" cy="${margin + inset / 2}" r="${inset / 2}"/></clipPath>`,
+          `<image href="${escapeAttribute(reference.uri)}" x="${width - margin - inset}" y="${margin}" width="${inset}" height="${inset}" preserveAspectRatio="xMidYMid slice" clip-path="url(#inset)"/>`,
+        ].join('')
+      : '',
+    `<rect x="0" y="${height - 64}" width="${width}" height="64" fill="#0C0C0C" fill-opacity="0.6"/>`,
+    `<text x="${width / 2}" y="${height - 24}" font-family="sans-serif" font-size="28" fill="#FFFFFF" text-anchor="middle">Mock result · ${task.id.slice(0, 8)}</text>`,
+    `</svg>`,
+  ].join('');
+
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+}
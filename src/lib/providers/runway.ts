@@ -0,0 +1,36 @@
+import { runwayApiRequest, type RetryEvent } from '@/lib/runway-api';
+import type { CreatedTask, GenerationProvider, GenerationTask } from './types';
+
+function logRetry({ attempt, delayMs, error }: RetryEvent) {
+  console.warn(`Runway request failed (${error.name}), retry #${attempt} in ${delayMs}ms`);
+}
+
+/**
+ * Provider backed by the Runway API
+ */
+export function createRunwayProvider(apiKey: string): GenerationProvider {
+  return {
+    name: 'runway',
+
+    createTask(input) {
+      return runwayApiRequest<CreatedTask>('/v1/text_to_image', apiKey, {
+        method: 'POST',
+        body: input,
+        onRetry: logRetry,
+      });
+    },
+
+    getTask(taskId) {
+      return runwayApiRequest<GenerationTask>(`/v1/tasks/${encodeURIComponent(taskId)}`, apiKey, {
+        onRetry: logRetry,
+      });
+    },
+
+    async cancelTask(taskId) {
+      await runwayApiRequest(`/v1/tasks/${encodeURIComponent(taskId)}`, apiKey, {
+        method: 'DELETE',
+        onRetry: logRetry,
+      });
+    },
+  };
+}
@@ -0,0 +1,47 @@
+export type TaskStatus = 'PENDING' | 'THROTTLED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED';
+
+export type ReferenceImage = {
+  uri: string;
+  tag?: string;
+};
+
+export type CreateTaskInput = {
+  promptText: string;
+  ratio: string;
+  model: string;
+  referenceImages: ReferenceImage[];
+};
+
+export type CreatedTask = {
+  id: string;
+};
+
+/**
+ * Snapshot of a generation task, shaped after Runway's `/v1/tasks/{id}` response
+ */
+export type GenerationTask = {
+  id: string;
+  status: TaskStatus;
+  createdAt: string;
+  progress?: number;
+  output?: string[];
+  failure?: string;
+  failureCode?: string;
+};
+
+/**
+ * Backend able to run image generation tasks. Every API route talks to the
+ * selected provider instead of a specific upstream service.
+ */
+export type GenerationProvider = {
+  name: string;
+  createTask(input: CreateTaskInput): Promise<CreatedTask>;
+  getTask(taskId: string): Promise<GenerationTask>;
+  cancelTask(taskId: string): Promise<void>;
+};
+
+export const TERMINAL_STATUSES: TaskStatus[] = ['SUCCEEDED', 'FAILED', 'CANCELLED'];
+
+export function isTerminalStatus(status: TaskStatus) {
+  return TERMINAL_STATUSES.includes(status);
+}
@@ -0,0 +1,8 @@
+/**
+ * URL of a path of this app. Relative unless `PUBLIC_BASE_URL` is set, which links
+ * that leave the app, such as share pages and their previews, need.
+ */
+export function toPublicUrl(pathname: string) {
+  const baseUrl = (process.env.PUBLIC_BASE_URL ?? '').replace(/\/+$/, '');
+  return `${baseUrl}${pathname}`;
+}
@@ -0,0 +1,32 @@
+import { ApiError } from '@/lib/api-errors';
+import { ErrorCode } from '@/lib/error-codes';
+
+/**
+ * Read an integer query parameter between 0 and `max`
+ */
+export function parseInteger(value: string | null, name: string, fallback: number, max = Infinity) {
+  if (value === null) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > max) {
+    throw new ApiError(
+      400,
+      ErrorCode.INVALID_REQUEST,
+      `"${name}" must be an integer between 0 and ${max}`
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Read an ISO 8601 date query parameter, normalized to UTC
+ */
+export function parseDate(value: string | null, name: string) {
+  if (value === null) return undefined;
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ApiError(400, ErrorCode.INVALID_REQUEST, `"${name}" must be an ISO 8601 date`);
+  }
+  return date.toISOString();
+}
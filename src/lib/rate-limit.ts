@@ -0,0 +1,280 @@
+import { ApiError } from '@/lib/api-errors';
+import { hasScope, type Principal } from '@/lib/auth';
+import { getCounterStore } from '@/lib/counter-store';
+import { readNumberEnv } from '@/lib/env';
+import { ErrorCode } from '@/lib/error-codes';
+import { getPeriodEnd, PERIODS, type Period } from '@/lib/periods';
+import type { NextRequest } from 'next/server';
+
+// Limits apply both to the authenticated caller and to the network it connects from,
+// since anonymous sessions are free to create
+type SubjectKind = 'caller' | 'ip';
+
+// Anonymous sessions get tighter caller limits than issued API keys
+type LimitKind = SubjectKind | 'session';
+
+type Subject = {
+  kind: SubjectKind;
+  id: string;
+  limits: LimitKind;
+};
+
+// Token buckets: `burst` requests at once, refilled at `perMinute`. Zero disables a limit.
+const RATE_LIMITS: Record<LimitKind, { burst: number; perMinute: number }> = {
+  caller: {
+    burst: readNumberEnv('RATE_LIMIT_BURST', 10),
+    perMinute: readNumberEnv('RATE_LIMIT_PER_MINUTE', 20),
+  },
+  session: {
+    burst: readNumberEnv('RATE_LIMIT_SESSION_BURST', 3),
+    perMinute: readNumberEnv('RATE_LIMIT_SESSION_PER_MINUTE', 5),
+  },
+  ip: {
+    burst: readNumberEnv('RATE_LIMIT_IP_BURST', 30),
+    perMinute: readNumberEnv('RATE_LIMIT_IP_PER_MINUTE', 60),
+  },
+};
+
+// Generations allowed per UTC day and month. Zero disables a quota.
+const QUOTAS: Record<LimitKind, Record<Period, number>> = {
+  caller: {
+    daily: readNumberEnv('QUOTA_DAILY', 50),
+    monthly: readNumberEnv('QUOTA_MONTHLY', 500),
+  },
+  session: {
+    daily: readNumberEnv('QUOTA_SESSION_DAILY', 5),
+    monthly: readNumberEnv('QUOTA_SESSION_MONTHLY', 30),
+  },
+  ip: {
+    daily: readNumberEnv('QUOTA_IP_DAILY', 100),
+    monthly: readNumberEnv('QUOTA_IP_MONTHLY', 1000),
+  },
+};
+
+const PERIOD_SECONDS: Record<Period, number> = {
+  daily: 24 * 60 * 60,
+  monthly: 30 * 24 * 60 * 60,
+};
+
+/**
+ * Where a caller stands against one limit, as reported in the `RateLimit-*` headers
+ */
+export type LimitState = {
+  limit: number;
+  remaining: number;
+  // Milliseconds until the limit is fully replenished
+  resetMs: number;
+  // Entry for the `RateLimit-Policy` header
+  policy: string;
+};
+
+// Proxies in front of the app that append to `X-Forwarded-For`. Without any, the header
+// is whatever the client sent and is ignored.
+const TRUSTED_PROXY_COUNT = Math.floor(readNumberEnv('TRUSTED_PROXY_COUNT', 0));
+
+/**
+ * Address of the client. Only the `X-Forwarded-For` entry added by the outermost trusted
+ * proxy is believed, counting from the right, since everything left of it comes from the
+ * client. Falls back to the address the platform reports for the connection.
+ */
+function getClientIp(req: NextRequest) {
+  if (TRUSTED_PROXY_COUNT > 0) {
+    const hops = (req.headers.get('x-forwarded-for') ?? '')
+      .split(',')
+      .map(hop => hop.trim())
+      .filter(Boolean);
+    const client = hops[hops.length - TRUSTED_PROXY_COUNT];
+    if (client) return client;
+  }
+  // Set by adapters that expose the socket address; Next.js 15 no longer types it
+  return (req as NextRequest & { ip?: string }).ip || null;
+}
+
+function getSubjects(req: NextRequest, principal: Principal): Subject[] {
+  // Administrators are trusted to manage their own spending
+  if (hasScope(principal, 'admin')) return [];
+
+  const ip = getClientIp(req);
+  const subjects: Subject[] = [
+    {
+      kind: 'caller',
+      id: principal.id,
+      limits: principal.kind === 'session' ? 'session' : 'caller',
+    },
+  ];
+  if (ip) subjects.push({ kind: 'ip', id: ip, limits: 'ip' });
+  return subjects;
+}
+
+function limitExceeded(limit: 'rate' | Period, scope: SubjectKind, retryAfterMs: number) {
+  const details = {
+    limit,
+    scope,
+    resetAt: new Date(Date.now() + retryAfterMs).toISOString(),
+  };
+
+  if (limit === 'rate') {
+    return new ApiError(
+      429,
+      ErrorCode.RATE_LIMITED,
+      'Too many requests, please slow down.',
+      details,
+      retryAfterMs
+    );
+  }
+  return new ApiError(
+    429,
+    ErrorCode.QUOTA_EXCEEDED,
+    `The ${limit} generation quota ${scope === 'ip' ? 'for this network ' : ''}has been used up.`,
+    details,
+    retryAfterMs
+  );
+}
+
+/**
+ * Take one request from the caller's token buckets for `bucket`, or throw a 429
+ * when one of them is empty
+ */
+export async function takeRateLimitToken(
+  req: NextRequest,
+  principal: Principal,
+  bucket: string
+): Promise<LimitState[]> {
+  const states: LimitState[] = [];
+
+  for (const subject of getSubjects(req, principal)) {
+    const { burst, perMinute } = RATE_LIMITS[subject.limits];
+    if (burst <= 0 || perMinute <= 0) continue;
+
+    const refillPerMs = perMinute / 60_000;
+    const { allowed, tokens } = await getCounterStore().update(
+      `rate:${bucket}:${subject.kind}:${subject.id}`,
+      counter => {
+        const now = Date.now();
+        const available = counter
+          ? Math.min(burst, counter.value + (now - counter.updatedAt) * refillPerMs)
+          : burst;
+        const allowed = available >= 1;
+        const tokens = allowed ? available - 1 : available;
+
+        return {
+          // Forget the bucket once it would have filled up again
+          counter: {
+            value: tokens,
+            updatedAt: now,
+            expiresAt: now + (burst - tokens) / refillPerMs,
+          },
+          result: { allowed, tokens },
+        };
+      }
+    );
+
+    if (!allowed) {
+      throw limitExceeded('rate', subject.kind, Math.ceil((1 - tokens) / refillPerMs));
+    }
+
+    states.push({
+      limit: burst,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((burst - tokens) / refillPerMs),
+      policy: `${burst};w=${Math.ceil(burst / (perMinute / 60))}`,
+    });
+  }
+
+  return states;
+}
+
+/**
+ * Report the caller's generation quotas, throwing a 429 when one is used up
+ */
+export async function checkQuota(req: NextRequest, principal: Principal): Promise<LimitState[]> {
+  const states: LimitState[] = [];
+
+  for (const subject of getSubjects(req, principal)) {
+    for (const period of PERIODS) {
+      const limit = QUOTAS[subject.limits][period];
+      if (limit <= 0) continue;
+
+      const used = await getCounterStore().update(
+        `quota:${period}:${subject.kind}:${subject.id}`,
+        counter => ({ result: counter?.value ?? 0 })
+      );
+      const resetMs = getPeriodEnd(period, Date.now()) - Date.now();
+
+      if (used >= limit) {
+        throw limitExceeded(period, subject.kind, resetMs);
+      }
+      states.push({
+        limit,
+        remaining: limit - used,
+        resetMs,
+        policy: `${limit};w=${PERIOD_SECONDS[period]}`,
+      });
+    }
+  }
+
+  return states;
+}
+
+/**
+ * Count `amount` generations against every quota of the caller, or throw a 429 without
+ * counting anything when that would go over one of them. Returns a function that gives
+ * the generations back, all of them or `count`, for when submissions fail.
+ */
+export async function chargeQuota(req: NextRequest, principal: Principal, amount: number) {
+  const store = getCounterStore();
+  const charged: string[] = [];
+
+  const refund = async (count = amount) => {
+    for (const key of charged) {
+      await store.update(key, counter => ({
+        counter: counter && { ...counter, value: Math.max(0, counter.value - count) },
+        result: undefined,
+      }));
+    }
+  };
+
+  try {
+    for (const subject of getSubjects(req, principal)) {
+      for (const period of PERIODS) {
+        const limit = QUOTAS[subject.limits][period];
+        if (limit <= 0) continue;
+
+        const key = `quota:${period}:${subject.kind}:${subject.id}`;
+        const allowed = await store.update(key, counter => {
+          const now = Date.now();
+          const used = counter?.value ?? 0;
+          if (used + amount > limit) return { result: false };
+
+          return {
+            counter: { value: used + amount, updatedAt: now, expiresAt: getPeriodEnd(period, now) },
+            result: true,
+          };
+        });
+
+        if (!allowed) {
+          throw limitExceeded(period, subject.kind, getPeriodEnd(period, Date.now()) - Date.now());
+        }
+        charged.push(key);
+      }
+    }
+  } catch (error) {
+    await refund();
+    throw error;
+  }
+
+  return refund;
+}
+
+/**
+ * Describe the tightest of the given limits in the standard `RateLimit-*` headers
+ */
+export function setRateLimitHeaders(headers: Headers, states: LimitState[]) {
+  if (states.length === 0) return;
+
+  const tightest = states.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+  headers.set('RateLimit-Limit', String(tightest.limit));
+  headers.set('RateLimit-Remaining', String(tightest.remaining));
+  headers.set('RateLimit-Reset', String(Math.ceil(tightest.resetMs / 1000)));
+  headers.set('RateLimit-Policy', states.map(state => state.policy).join(', '));
+}
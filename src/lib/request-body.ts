@@ -0,0 +1,55 @@
+import { ApiError } from '@/lib/api-errors';
+import { ErrorCode } from '@/lib/error-codes';
+import { NextRequest } from 'next/server';
+
+/**
+ * Read a JSON request body, refusing anything that is not JSON or larger than `maxBytes`.
+ * The body is streamed so an oversized upload is cut off without being buffered whole.
+ */
+export async function readJsonBody(req: NextRequest, maxBytes: number): Promise<unknown> {
+  const contentType = req.headers.get('content-type') ?? '';
+  if (!/^application\/json\s*(;|$)/i.test(contentType)) {
+    throw new ApiError(
+      415,
+      ErrorCode.UNSUPPORTED_MEDIA_TYPE,
+      'Request body must be sent as application/json',
+      { field: 'Content-Type' }
+    );
+  }
+
+  const tooLarge = () =>
+    new ApiError(
+      413,
+      ErrorCode.PAYLOAD_TOO_LARGE,
+      `Request body must not exceed ${maxBytes} bytes`,
+      { field: 'body', maxBytes }
+    );
+
+  if (Number(req.headers.get('content-length')) > maxBytes) {
+    throw tooLarge();
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  if (req.body) {
+    const reader = req.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      size += value.byteLength;
+      if (size > maxBytes) {
+        await reader.cancel();
+        throw tooLarge();
+      }
+      chunks.push(value);
+    }
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new ApiError(400, ErrorCode.INVALID_JSON, 'Request body must be valid JSON');
+  }
+}
@@ -0,0 +1,36 @@
+import type { CachedResult, ResultCacheLimits } from './types';
+
+function isLive(entry: CachedResult, now: number) {
+  return entry.expiresAt > now;
+}
+
+/**
+ * Entry and byte totals of the unexpired entries
+ */
+export function measureResults(entries: Record<string, CachedResult>) {
+  const now = Date.now();
+  const live = Object.values(entries).filter(entry => isLive(entry, now));
+  return { entries: live.length, bytes: live.reduce((sum, entry) => sum + entry.bytes, 0) };
+}
+
+/**
+ * Drop expired entries, then the least recently used ones until the cache fits its limits.
+ * Shared by the store implementations.
+ */
+export function evictResults(entries: Record<string, CachedResult>, limits: ResultCacheLimits) {
+  const now = Date.now();
+
+  for (const [key, entry] of Object.entries(entries)) {
+    if (!isLive(entry, now)) delete entries[key];
+  }
+
+  let { entries: count, bytes } = measureResults(entries);
+  const byAge = Object.values(entries).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+
+  for (const entry of byAge) {
+    if (count <= limits.maxEntries && bytes <= limits.maxBytes) break;
+    delete entries[entry.key];
+    count--;
+    bytes -= entry.bytes;
+  }
+}
@@ -0,0 +1,48 @@
+import { createJsonFile } from '@/lib/json-file';
+import { evictResults, measureResults } from './evict';
+import type { CachedResult, ResultCacheStore } from './types';
+
+type ResultCacheFileData = {
+  entries: Record<string, CachedResult>;
+  hits: number;
+  misses: number;
+};
+
+/**
+ * Result cache persisted to a JSON file, so cached results and counters survive restarts
+ */
+export function createFileResultCacheStore(filePath: string): ResultCacheStore {
+  const file = createJsonFile<ResultCacheFileData>(filePath, () => ({
+    entries: {},
+    hits: 0,
+    misses: 0,
+  }));
+
+  return {
+    async get(key) {
+      return file.update(data => {
+        const entry = data.entries[key];
+        if (!entry || entry.expiresAt <= Date.now()) {
+          data.misses++;
+          return null;
+        }
+
+        data.hits++;
+        entry.lastUsedAt = Date.now();
+        return structuredClone(entry);
+      });
+    },
+
+    async put(entry, limits) {
+      await file.update(data => {
+        data.entries[entry.key] = structuredClone(entry);
+        evictResults(data.entries, limits);
+      });
+    },
+
+    async stats() {
+      const { entries, hits, misses } = await file.read();
+      return { ...measureResults(entries), hits, misses };
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import { getDataDir } from '@/lib/json-file';
+import path from 'path';
+import { createFileResultCacheStore } from './file';
+import { createMemoryResultCacheStore } from './memory';
+import type { ResultCacheStore } from './types';
+
+export * from './types';
+
+// Keep the store on globalThis so it survives module reloads in development
+const globalForStore = globalThis as unknown as { resultCacheStore?: ResultCacheStore };
+
+/**
+ * Result cache, kept alongside the task registry: in memory when `TASK_STORE=memory`,
+ * otherwise in `result-cache.json` in the data directory
+ */
+export function getResultCacheStore(): ResultCacheStore {
+  if (!globalForStore.resultCacheStore) {
+    const kind = (process.env.TASK_STORE || 'file').toLowerCase();
+
+    globalForStore.resultCacheStore =
+      kind === 'memory'
+        ? createMemoryResultCacheStore()
+        : createFileResultCacheStore(path.join(getDataDir(), 'result-cache.json'));
+  }
+
+  return globalForStore.resultCacheStore;
+}
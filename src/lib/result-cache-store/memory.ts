@@ -0,0 +1,34 @@
+import { evictResults, measureResults } from './evict';
+import type { CachedResult, ResultCacheStore } from './types';
+
+/**
+ * Result cache kept in process memory. Entries are lost on restart.
+ */
+export function createMemoryResultCacheStore(): ResultCacheStore {
+  const entries: Record<string, CachedResult> = {};
+  let hits = 0;
+  let misses = 0;
+
+  return {
+    async get(key) {
+      const entry = entries[key];
+      if (!entry || entry.expiresAt <= Date.now()) {
+        misses++;
+        return null;
+      }
+
+      hits++;
+      entry.lastUsedAt = Date.now();
+      return structuredClone(entry);
+    },
+
+    async put(entry, limits) {
+      entries[entry.key] = structuredClone(entry);
+      evictResults(entries, limits);
+    },
+
+    async stats() {
+      return { ...measureResults(entries), hits, misses };
+    },
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Output of a successful generation, kept for requests with identical inputs
+ */
+export type CachedResult = {
+  // See `getResultCacheKey`
+  key: string;
+  // Task that produced the output
+  taskId: string;
+  output: string[];
+  // Size of the output URLs, counted against the cache size limit
+  bytes: number;
+  createdAt: string;
+  // Milliseconds since the epoch; least recently used entries are evicted first
+  lastUsedAt: number;
+  expiresAt: number;
+};
+
+export type ResultCacheLimits = {
+  maxEntries: number;
+  maxBytes: number;
+};
+
+export type ResultCacheStats = {
+  entries: number;
+  bytes: number;
+  // Lookups answered from the cache, and those that found nothing, since the store was created
+  hits: number;
+  misses: number;
+};
+
+export type ResultCacheStore = {
+  /** Look up an unexpired entry, marking it as used and counting the hit or miss */
+  get(key: string): Promise<CachedResult | null>;
+  /** Add or replace an entry, evicting least recently used ones to stay within the limits */
+  put(entry: CachedResult, limits: ResultCacheLimits): Promise<void>;
+  stats(): Promise<ResultCacheStats>;
+};
@@ -0,0 +1,76 @@
+import { readNumberEnv } from '@/lib/env';
+import { getResultCacheStore, type CachedResult } from '@/lib/result-cache-store';
+import type { TaskRecord } from '@/lib/task-store';
+import { createHash } from 'crypto';
+
+// Provider output URLs expire, so results are only reused for a limited time
+const RESULT_CACHE_TTL_SECONDS = readNumberEnv('RESULT_CACHE_TTL_SECONDS', 12 * 60 * 60);
+const RESULT_CACHE_MAX_ENTRIES = readNumberEnv('RESULT_CACHE_MAX_ENTRIES', 500);
+const RESULT_CACHE_MAX_BYTES = readNumberEnv('RESULT_CACHE_MAX_BYTES', 50 * 1024 * 1024);
+
+/**
+ * What identifies a generation for caching purposes
+ */
+export type CacheableInputs = Pick<TaskRecord, 'model' | 'ratio' | 'inputsHash'>;
+
+function isEnabled() {
+  return RESULT_CACHE_TTL_SECONDS > 0 && RESULT_CACHE_MAX_ENTRIES > 0;
+}
+
+/**
+ * Cache key of a generation: its model, output ratio and the hash of its
+ * preprocessed images and prompt (see `hashInputs`)
+ */
+export function getResultCacheKey({ model, ratio, inputsHash }: CacheableInputs) {
+  return createHash('sha256').update(`${model}\0${ratio}\0${inputsHash}`).digest('hex');
+}
+
+/**
+ * Output of an earlier successful generation with the same inputs, if one is still cached.
+ * Lookup failures count as a miss rather than failing the request.
+ */
+export async function findCachedResult(inputs: CacheableInputs): Promise<CachedResult | null> {
+  if (!isEnabled()) return null;
+
+  try {
+    return await getResultCacheStore().get(getResultCacheKey(inputs));
+  } catch (error) {
+    console.error('Failed to read the result cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Remember the output of a task that just succeeded, for later identical requests
+ */
+export async function cacheResult(record: TaskRecord, output: string[]) {
+  if (!isEnabled() || output.length === 0) return;
+
+  const now = Date.now();
+  try {
+    await getResultCacheStore().put(
+      {
+        key: getResultCacheKey(record),
+        taskId: record.id,
+        output,
+        bytes: output.reduce((sum, url) => sum + url.length, 0),
+        createdAt: new Date(now).toISOString(),
+        lastUsedAt: now,
+        expiresAt: now + RESULT_CACHE_TTL_SECONDS * 1000,
+      },
+      { maxEntries: RESULT_CACHE_MAX_ENTRIES, maxBytes: RESULT_CACHE_MAX_BYTES }
+    );
+  } catch (error) {
+    console.error(`Failed to cache the result of task ${record.id}:`, error);
+  }
+}
+
+/**
+ * Size of the cache and how often it was hit
+ */
+export async function getResultCacheStats() {
+  return {
+    enabled: isEnabled(),
+    ...(await getResultCacheStore().stats()),
+  };
+}
@@ -0,0 +1,126 @@
+import { readNumberEnv } from '@/lib/env';
+import { toPublicUrl } from '@/lib/public-url';
+import { getResultStorage } from '@/lib/result-storage';
+import { createHash } from 'crypto';
+
+const RESULT_FETCH_TIMEOUT_MS = readNumberEnv('RESULT_FETCH_TIMEOUT_MS', 30000);
+const MAX_RESULT_BYTES = readNumberEnv('MAX_RESULT_BYTES', 25 * 1024 * 1024);
+
+// Where stored results are served from, see `src/app/api/results/[id]`
+const RESULT_PATH = '/api/results/';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  // The mock provider draws its placeholders as SVG
+  'image/svg+xml': 'svg',
+};
+
+const CONTENT_TYPES = Object.fromEntries(
+  Object.entries(EXTENSIONS).map(([contentType, extension]) => [extension, contentType])
+);
+
+// SHA-256 of the image followed by the extension of its type
+const RESULT_ID_PATTERN = /^[0-9a-f]{64}\.(jpg|png|webp|svg)$/;
+
+const DATA_URI_PATTERN = /^data:([^;,]+);base64,(.*)$/i;
+
+export type StoredResult = {
+  data: Buffer;
+  contentType: string;
+};
+
+/**
+ * URL a stored result is served at, see `toPublicUrl`
+ */
+export function getResultUrl(id: string) {
+  return toPublicUrl(`${RESULT_PATH}${id}`);
+}
+
+/**
+ * ID of the stored result a URL points at, or null for any other URL
+ */
+export function getResultId(url: string) {
+  const index = url.lastIndexOf(RESULT_PATH);
+  const id = index === -1 ? '' : url.slice(index + RESULT_PATH.length);
+  return RESULT_ID_PATTERN.test(id) ? id : null;
+}
+
+async function download(url: string) {
+  const dataUriMatch = DATA_URI_PATTERN.exec(url);
+  if (dataUriMatch) {
+    return { data: Buffer.from(dataUriMatch[2], 'base64'), contentType: dataUriMatch[1] };
+  }
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(RESULT_FETCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Downloading the output failed with HTTP ${response.status}`);
+  }
+  if (Number(response.headers.get('content-length')) > MAX_RESULT_BYTES) {
+    throw new Error(`The output is larger than ${MAX_RESULT_BYTES} bytes`);
+  }
+
+  const data = Buffer.from(await response.arrayBuffer());
+  if (data.length > MAX_RESULT_BYTES) {
+    throw new Error(`The output is larger than ${MAX_RESULT_BYTES} bytes`);
+  }
+  return { data, contentType: response.headers.get('content-type') ?? '' };
+}
+
+/**
+ * Put an image into result storage, named after its hash so identical images are
+ * stored once. Returns the stable URL of the copy.
+ */
+export async function storeImage(data: Buffer, declaredType: string) {
+  const contentType = declaredType.split(';')[0].trim().toLowerCase();
+
+  const extension = EXTENSIONS[contentType];
+  if (!extension) {
+    throw new Error(`Unsupported image type "${contentType}"`);
+  }
+
+  const id = `${createHash('sha256').update(data).digest('hex')}.${extension}`;
+  const storage = getResultStorage();
+  if (!(await storage.has(id))) {
+    await storage.put(id, data, contentType);
+  }
+  return getResultUrl(id);
+}
+
+async function storeResult(url: string) {
+  const { data, contentType } = await download(url);
+  return storeImage(data, contentType);
+}
+
+/**
+ * Replace the provider's output URLs, which are signed and expire, with URLs of our
+ * own copies. An output that cannot be copied keeps its upstream URL, so a storage
+ * problem costs durability rather than the result itself.
+ */
+export async function storeResults(output: string[]) {
+  return Promise.all(
+    output.map(async url => {
+      if (getResultId(url)) return url;
+
+      try {
+        return await storeResult(url);
+      } catch (error) {
+        console.error('Failed to store generation output:', error);
+        return url;
+      }
+    })
+  );
+}
+
+/**
+ * A stored result by the ID in its URL, or null if the ID is malformed or unknown
+ */
+export async function readResult(id: string): Promise<StoredResult | null> {
+  if (!RESULT_ID_PATTERN.test(id)) return null;
+
+  const data = await getResultStorage().get(id);
+  if (!data) return null;
+
+  return { data, contentType: CONTENT_TYPES[id.slice(id.lastIndexOf('.') + 1)] };
+}
@@ -0,0 +1,28 @@
+import { getDataDir } from '@/lib/json-file';
+import path from 'path';
+import { createLocalResultStorage } from './local';
+import type { ResultStorage } from './types';
+
+export * from './types';
+
+// Keep the storage on globalThis so it survives module reloads in development
+const globalForStorage = globalThis as unknown as { resultStorage?: ResultStorage };
+
+/**
+ * Storage for generated images selected by `RESULT_STORAGE`. Only "local" is available
+ * so far, writing to `RESULT_STORAGE_DIR` or `results` in the data directory.
+ */
+export function getResultStorage(): ResultStorage {
+  if (!globalForStorage.resultStorage) {
+    const kind = (process.env.RESULT_STORAGE || 'local').toLowerCase();
+
+    if (kind !== 'local') {
+      throw new Error(`Unknown RESULT_STORAGE "${kind}", expected "local"`);
+    }
+    globalForStorage.resultStorage = createLocalResultStorage(
+      path.resolve(process.env.RESULT_STORAGE_DIR || path.join(getDataDir(), 'results'))
+    );
+  }
+
+  return globalForStorage.resultStorage;
+}
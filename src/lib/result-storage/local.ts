@@ -0,0 +1,41 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ResultStorage } from './types';
+
+/**
+ * Result storage on the local filesystem, one file per key. Content types are not
+ * recorded: keys carry a file extension that identifies them.
+ */
+export function createLocalResultStorage(dir: string): ResultStorage {
+  const getPath = (key: string) => path.join(dir, key);
+
+  return {
+    name: 'local',
+
+    async put(key, data) {
+      const filePath = getPath(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, data);
+      await fs.rename(tempPath, filePath);
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(getPath(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async has(key) {
+      try {
+        await fs.access(getPath(key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
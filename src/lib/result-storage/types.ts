@@ -0,0 +1,13 @@
+/**
+ * Object storage holding copies of generated images under stable keys.
+ * Shaped after S3-style buckets, so a remote backend only has to map these calls
+ * onto its put, get and head requests.
+ */
+export type ResultStorage = {
+  name: string;
+  /** Store an object. Keys are content hashes, so writing an existing key is harmless. */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Read an object, or null if there is none under the key */
+  get(key: string): Promise<Buffer | null>;
+  has(key: string): Promise<boolean>;
+};
@@ -1,25 +1,126 @@
 import { RUNWAY_API_URL, RUNWAY_API_VERSION } from '@/constants';
+import { createCircuitBreaker, type CircuitBreaker } from '@/lib/circuit-breaker';
+import { readNumberEnv } from '@/lib/env';
+import {
+  createRunwayApiError,
+  RunwayApiError,
+  RunwayAuthError,
+  RunwayCircuitOpenError,
+  RunwayParseError,
+  RunwayTimeoutError,
+  RunwayUpstreamError,
+} from '@/lib/runway-errors';
 
 type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
 
-type RunwayRequestOptions = {
+export type RetryOptions = {
+  // Maximum number of retries after the first attempt
+  retries: number;
+  // Base delay for exponential backoff
+  baseDelayMs: number;
+  // Upper bound for a single backoff delay
+  maxDelayMs: number;
+  // Longest Retry-After we are willing to wait; longer waits are surfaced to the caller
+  maxRetryAfterMs: number;
+};
+
+export type RetryEvent = {
+  attempt: number;
+  delayMs: number;
+  error: RunwayApiError;
+};
+
+export type RunwayRequestOptions = {
   method?: HttpMethod;
-  body?: any;
+  body?: unknown;
   additionalHeaders?: Record<string, string>;
+  retry?: Partial<RetryOptions> | false;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (event: RetryEvent) => void;
 };
 
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: readNumberEnv('RUNWAY_MAX_RETRIES', 3),
+  baseDelayMs: readNumberEnv('RUNWAY_RETRY_BASE_DELAY_MS', 500),
+  maxDelayMs: readNumberEnv('RUNWAY_RETRY_MAX_DELAY_MS', 8000),
+  maxRetryAfterMs: readNumberEnv('RUNWAY_MAX_RETRY_AFTER_MS', 20000),
+};
+
+const DEFAULT_TIMEOUT_MS = readNumberEnv('RUNWAY_REQUEST_TIMEOUT_MS', 30000);
+
+// Shared by every request so an outage detected by one route protects the others
+const circuitBreaker: CircuitBreaker = createCircuitBreaker({
+  failureThreshold: readNumberEnv('RUNWAY_CIRCUIT_FAILURE_THRESHOLD', 5),
+  resetTimeoutMs: readNumberEnv('RUNWAY_CIRCUIT_RESET_MS', 30000),
+});
+
+/**
+ * Current state of the circuit breaker guarding the Runway API
+ */
+export function getRunwayCircuitState() {
+  return circuitBreaker.state;
+}
+
 /**
- * Utility function to make Runway API requests with proper headers
+ * Utility function to make Runway API requests with proper headers.
+ *
+ * Rate-limited (429) and unavailable (503) responses are retried with
+ * exponential backoff and jitter, honouring `Retry-After`. Other server and
+ * network errors are only retried for idempotent methods. Each attempt is
+ * bounded by `timeoutMs`, and requests are short-circuited while the circuit
+ * breaker considers Runway down. Failures are thrown as subclasses of
+ * `RunwayApiError`.
  */
-export async function runwayApiRequest<T = any>(
+export async function runwayApiRequest<T = unknown>(
   endpoint: string,
   apiKey: string,
   options: RunwayRequestOptions = {}
 ): Promise<T> {
-  const { method = 'GET', body, additionalHeaders = {} } = options;
+  const { retry, signal, onRetry } = options;
+  const retryOptions = retry === false ? null : { ...DEFAULT_RETRY_OPTIONS, ...retry };
 
   if (!apiKey) {
-    throw new Error('API key is required for Runway API requests');
+    throw new RunwayAuthError('API key is required for Runway API requests', { status: 0 });
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sendRequest<T>(endpoint, apiKey, options);
+    } catch (error) {
+      if (!(error instanceof RunwayApiError) || !error.retryable) throw error;
+      if (!retryOptions || attempt >= retryOptions.retries) throw error;
+
+      const delayMs = error.retryAfterMs ?? backoffDelay(attempt, retryOptions);
+      if (delayMs > retryOptions.maxRetryAfterMs) throw error;
+
+      onRetry?.({ attempt: attempt + 1, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+async function sendRequest<T>(
+  endpoint: string,
+  apiKey: string,
+  options: RunwayRequestOptions
+): Promise<T> {
+  const {
+    method = 'GET',
+    body,
+    additionalHeaders = {},
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    signal,
+  } = options;
+  const idempotent = method !== 'POST';
+
+  if (!circuitBreaker.canRequest()) {
+    throw new RunwayCircuitOpenError('Runway API is temporarily unavailable', {
+      status: 0,
+      retryAfterMs: Math.max(circuitBreaker.retryAfterMs(), 1000),
+      // Nothing was sent, so trying again later is always safe
+      retryable: true,
+    });
   }
 
   const headers = {
@@ -29,9 +130,11 @@ export async function runwayApiRequest<T = any>(
     ...additionalHeaders,
   };
 
+  const timeoutSignal = AbortSignal.timeout(timeoutMs);
   const requestOptions: RequestInit = {
     method,
     headers,
+    signal: signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal,
   };
 
   if (body && (method === 'POST' || method === 'PUT')) {
@@ -40,28 +143,52 @@ export async function runwayApiRequest<T = any>(
 
   const url = `${RUNWAY_API_URL}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}`;
 
-  const response = await fetch(url, requestOptions);
+  let response: Response;
+  try {
+    response = await fetch(url, requestOptions);
+  } catch (error) {
+    // Let the caller's own cancellation propagate untouched
+    if (signal?.aborted) throw error;
+
+    circuitBreaker.recordFailure();
+
+    if (timeoutSignal.aborted) {
+      throw new RunwayTimeoutError(`Runway API did not respond within ${timeoutMs}ms`, {
+        status: 0,
+        retryable: idempotent,
+      });
+    }
+    throw new RunwayUpstreamError('Failed to reach the Runway API', {
+      status: 0,
+      details: { error: error instanceof Error ? error.message : String(error) },
+      retryable: idempotent,
+    });
+  }
+
+  if (response.status >= 500) {
+    circuitBreaker.recordFailure();
+  } else {
+    circuitBreaker.recordSuccess();
+  }
 
   if (!response.ok) {
+    // Read the body once as text so a non-JSON error page can still be reported
     let errorData;
     try {
-      errorData = await response.json();
-    } catch (e) {
-      // If the response is not JSON, use the status text or response text as the error
+      const text = await response.text();
       try {
-        errorData = { error: (await response.text()) || response.statusText };
-      } catch (textError) {
-        errorData = { error: response.statusText || 'Unknown error' };
+        errorData = JSON.parse(text);
+      } catch {
+        errorData = { error: text || response.statusText };
       }
+    } catch {
+      errorData = { error: response.statusText || 'Unknown error' };
     }
 
-    throw new Error(
-      JSON.stringify({
-        status: response.status,
-        statusText: response.statusText,
-        details: errorData,
-      })
-    );
+    throw createRunwayApiError(response.status, response.statusText, errorData, {
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+      idempotent,
+    });
   }
 
   // Handle 204 No Content responses (commonly returned by DELETE operations)
@@ -72,7 +199,53 @@ export async function runwayApiRequest<T = any>(
   try {
     const data = await response.json();
     return data;
-  } catch (error) {
-    throw new Error('Failed to parse response');
+  } catch {
+    throw new RunwayParseError('Failed to parse response', {
+      status: response.status,
+      statusText: response.statusText,
+    });
   }
 }
+
+/**
+ * Exponential backoff with full jitter
+ */
+function backoffDelay(attempt: number, { baseDelayMs, maxDelayMs }: RetryOptions) {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+function parseRetryAfter(value: string | null) {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
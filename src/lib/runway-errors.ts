@@ -0,0 +1,91 @@
+type RunwayErrorInit = {
+  status: number;
+  statusText?: string;
+  details?: unknown;
+  retryAfterMs?: number;
+  retryable?: boolean;
+};
+
+/**
+ * Base class for failures talking to the Runway API.
+ * `status` is the upstream HTTP status, or 0 when no response was received.
+ * `retryable` tells callers that repeating the request later is safe, and
+ * `retryAfterMs` how long to wait first when the upstream said so.
+ */
+export class RunwayApiError extends Error {
+  readonly status: number;
+  readonly statusText: string;
+  readonly details: unknown;
+  readonly retryAfterMs?: number;
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    { status, statusText = '', details, retryAfterMs, retryable = false }: RunwayErrorInit
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+    this.statusText = statusText;
+    this.details = details;
+    this.retryAfterMs = retryAfterMs;
+    this.retryable = retryable;
+  }
+}
+
+// Runway rejected our API key (401/403)
+export class RunwayAuthError extends RunwayApiError {}
+
+// Runway rejected the request payload (400/422)
+export class RunwayValidationError extends RunwayApiError {}
+
+// Too many requests for our API key (429)
+export class RunwayRateLimitError extends RunwayApiError {}
+
+// The requested task does not exist or was deleted (404)
+export class RunwayNotFoundError extends RunwayApiError {}
+
+// Runway is unreachable or failing (5xx, network errors)
+export class RunwayUpstreamError extends RunwayApiError {}
+
+// Runway did not answer within the request timeout
+export class RunwayTimeoutError extends RunwayUpstreamError {}
+
+// Requests are short-circuited because Runway failed repeatedly
+export class RunwayCircuitOpenError extends RunwayUpstreamError {}
+
+// Runway answered with a body we could not parse
+export class RunwayParseError extends RunwayApiError {}
+
+/**
+ * Pick the error class matching an upstream HTTP status.
+ * Server errors are only retryable for idempotent requests, except 503 which
+ * means the request was never processed.
+ */
+export function createRunwayApiError(
+  status: number,
+  statusText: string,
+  details: unknown,
+  { retryAfterMs, idempotent = false }: { retryAfterMs?: number; idempotent?: boolean } = {}
+): RunwayApiError {
+  const message = describeDetails(details) || statusText || `Runway API error (${status})`;
+  const init = { status, statusText, details, retryAfterMs };
+
+  if (status === 401 || status === 403) return new RunwayAuthError(message, init);
+  if (status === 400 || status === 422) return new RunwayValidationError(message, init);
+  if (status === 404) return new RunwayNotFoundError(message, init);
+  // A rate-limited or unavailable upstream did not process the request, so repeating it is safe
+  if (status === 429) return new RunwayRateLimitError(message, { ...init, retryable: true });
+  if (status === 503) return new RunwayUpstreamError(message, { ...init, retryable: true });
+  if (status >= 500) return new RunwayUpstreamError(message, { ...init, retryable: idempotent });
+
+  return new RunwayApiError(message, init);
+}
+
+function describeDetails(details: unknown) {
+  if (details && typeof details === 'object' && 'error' in details) {
+    const { error } = details as { error: unknown };
+    return typeof error === 'string' ? error : undefined;
+  }
+  return undefined;
+}
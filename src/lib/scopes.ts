@@ -0,0 +1,11 @@
+/**
+ * Permissions a caller can be granted. `admin` implies every other scope and
+ * gives access to tasks created by anyone.
+ */
+export const SCOPES = ['generate', 'tasks:read', 'tasks:cancel', 'shares', 'admin'] as const;
+
+export type Scope = (typeof SCOPES)[number];
+
+export function isScope(value: unknown): value is Scope {
+  return SCOPES.includes(value as Scope);
+}
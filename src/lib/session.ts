@@ -0,0 +1,87 @@
+import { readNumberEnv } from '@/lib/env';
+import { isScope, type Scope } from '@/lib/scopes';
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+
+export const SESSION_COOKIE = 'hm_session';
+
+export const SESSION_TTL_SECONDS = readNumberEnv('SESSION_TTL_SECONDS', 7 * 24 * 60 * 60);
+
+// What a browser session of the demo app may do
+const SESSION_SCOPES: Scope[] = ['generate', 'tasks:read', 'tasks:cancel', 'shares'];
+
+/**
+ * Anonymous sessions hand spending rights to any visitor, so they are off unless
+ * `ANONYMOUS_SESSIONS=true`
+ */
+export function anonymousSessionsEnabled() {
+  return process.env.ANONYMOUS_SESSIONS === 'true';
+}
+
+export type Session = {
+  id: string;
+  scopes: Scope[];
+  // Unix time in seconds
+  expiresAt: number;
+};
+
+// Keep a generated secret on globalThis so sessions survive module reloads in development
+const globalForSession = globalThis as unknown as { sessionSecret?: string };
+
+function getSessionSecret() {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+
+  if (!globalForSession.sessionSecret) {
+    console.warn('SESSION_SECRET is not set, sessions will not survive a restart');
+    globalForSession.sessionSecret = randomBytes(32).toString('hex');
+  }
+  return globalForSession.sessionSecret;
+}
+
+function sign(payload: string) {
+  return createHmac('sha256', getSessionSecret()).update(payload).digest();
+}
+
+/**
+ * Start a new anonymous session, or extend an existing one
+ */
+export function createSession(id: string = randomUUID()): Session {
+  return {
+    id,
+    scopes: SESSION_SCOPES,
+    expiresAt: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+  };
+}
+
+/**
+ * Cookie value carrying the session: its JSON payload and an HMAC over it, both base64url encoded
+ */
+export function encodeSession(session: Session) {
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return `${payload}.${sign(payload).toString('base64url')}`;
+}
+
+/**
+ * Read a session cookie, returning null unless it is authentic and unexpired
+ */
+export function decodeSession(value: string): Session | null {
+  const [payload, signature, ...rest] = value.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = sign(payload);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as Session;
+    const valid =
+      typeof session.id === 'string' &&
+      Array.isArray(session.scopes) &&
+      session.scopes.every(isScope) &&
+      typeof session.expiresAt === 'number' &&
+      session.expiresAt > Date.now() / 1000;
+
+    return valid ? session : null;
+  } catch {
+    return null;
+  }
+}
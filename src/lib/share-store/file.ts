@@ -0,0 +1,36 @@
+import { createJsonFile } from '@/lib/json-file';
+import type { ShareRecord, ShareStore } from './types';
+
+type ShareFileData = {
+  shares: Record<string, ShareRecord>;
+};
+
+/**
+ * Share store persisted to a JSON file, so share links survive restarts
+ */
+export function createFileShareStore(filePath: string): ShareStore {
+  const file = createJsonFile<ShareFileData>(filePath, () => ({ shares: {} }));
+
+  return {
+    async create(record) {
+      await file.update(data => {
+        data.shares[record.id] = structuredClone(record);
+      });
+    },
+
+    async get(id) {
+      const { shares } = await file.read();
+      return Object.hasOwn(shares, id) ? structuredClone(shares[id]) : null;
+    },
+
+    async update(id, patch) {
+      return file.update(data => {
+        const share = data.shares[id];
+        if (!share) return null;
+
+        data.shares[id] = { ...share, ...patch, id };
+        return structuredClone(data.shares[id]);
+      });
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import { getDataDir } from '@/lib/json-file';
+import path from 'path';
+import { createFileShareStore } from './file';
+import { createMemoryShareStore } from './memory';
+import type { ShareStore } from './types';
+
+export * from './types';
+
+// Keep the store on globalThis so it survives module reloads in development
+const globalForStore = globalThis as unknown as { shareStore?: ShareStore };
+
+/**
+ * Share store, kept alongside the task registry: in memory when `TASK_STORE=memory`,
+ * otherwise in `shares.json` in the data directory
+ */
+export function getShareStore(): ShareStore {
+  if (!globalForStore.shareStore) {
+    const kind = (process.env.TASK_STORE || 'file').toLowerCase();
+
+    globalForStore.shareStore =
+      kind === 'memory'
+        ? createMemoryShareStore()
+        : createFileShareStore(path.join(getDataDir(), 'shares.json'));
+  }
+
+  return globalForStore.shareStore;
+}
@@ -0,0 +1,28 @@
+import type { ShareRecord, ShareStore } from './types';
+
+/**
+ * Share store kept in process memory. Shares are lost on restart.
+ */
+export function createMemoryShareStore(): ShareStore {
+  const shares = new Map<string, ShareRecord>();
+
+  return {
+    async create(record) {
+      shares.set(record.id, structuredClone(record));
+    },
+
+    async get(id) {
+      const share = shares.get(id);
+      return share ? structuredClone(share) : null;
+    },
+
+    async update(id, patch) {
+      const share = shares.get(id);
+      if (!share) return null;
+
+      const updated = { ...share, ...patch, id };
+      shares.set(id, updated);
+      return structuredClone(updated);
+    },
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * The submitted selfie of a shared task, by its name in the input image store
+ */
+export type ShareSelfie = {
+  sha256: string;
+  mimeType: string;
+};
+
+/**
+ * A public link to one generation result, created by its owner
+ */
+export type ShareRecord = {
+  // Unguessable ID in the `/r/[shareId]` URL
+  id: string;
+  taskId: string;
+  // Caller that created the share, see `Principal.id`
+  owner: string;
+  hairstyle: string | null;
+  // Stored copy of the result, see `getResultUrl`
+  resultUrl: string;
+  // Submitted selfie of the task, only when the owner chose to show it. It is served by
+  // `GET /r/[shareId]/selfie` while the share is active, never from public storage.
+  selfie?: ShareSelfie;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+};
+
+export type ShareStore = {
+  create(record: ShareRecord): Promise<void>;
+  get(id: string): Promise<ShareRecord | null>;
+  /** Merge a patch into an existing share, returning the updated share or null if unknown */
+  update(id: string, patch: Partial<Omit<ShareRecord, 'id'>>): Promise<ShareRecord | null>;
+};
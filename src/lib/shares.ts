@@ -0,0 +1,184 @@
+import { ApiError } from '@/lib/api-errors';
+import { canAccess, type Principal } from '@/lib/auth';
+import { readNumberEnv } from '@/lib/env';
+import { ErrorCode } from '@/lib/error-codes';
+import { getInputImagePath } from '@/lib/input-images';
+import { toPublicUrl } from '@/lib/public-url';
+import { getShareStore, type ShareRecord, type ShareSelfie } from '@/lib/share-store';
+import { assertTaskAccess } from '@/lib/task-records';
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+
+const SHARE_TTL_DAYS = readNumberEnv('SHARE_TTL_DAYS', 30);
+const MAX_SHARE_TTL_DAYS = readNumberEnv('MAX_SHARE_TTL_DAYS', 365);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ShareRequest = {
+  taskId: string;
+  // Show the selfie next to the result; off unless the owner asks for it
+  includeSelfie: boolean;
+  expiresInDays: number;
+};
+
+/**
+ * What the owner of a share sees about it
+ */
+export type PublicShare = {
+  id: string;
+  url: string;
+  taskId: string;
+  hairstyle: string | null;
+  includesSelfie: boolean;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+};
+
+function invalid(field: string, message: string) {
+  return new ApiError(400, ErrorCode.INVALID_REQUEST, message, { field });
+}
+
+function shareNotFound() {
+  return new ApiError(404, ErrorCode.SHARE_NOT_FOUND, 'Share not found.');
+}
+
+/**
+ * Validate the body of a `POST /api/shares` request
+ */
+export function parseShareRequest(body: unknown): ShareRequest {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw invalid('body', 'Request body must be a JSON object');
+  }
+  const {
+    taskId,
+    includeSelfie = false,
+    expiresInDays = SHARE_TTL_DAYS,
+  } = body as Record<string, unknown>;
+
+  if (typeof taskId !== 'string' || !taskId) {
+    throw invalid('taskId', 'taskId is required');
+  }
+  if (typeof includeSelfie !== 'boolean') {
+    throw invalid('includeSelfie', 'includeSelfie must be a boolean');
+  }
+  if (
+    typeof expiresInDays !== 'number' ||
+    !Number.isInteger(expiresInDays) ||
+    expiresInDays < 1 ||
+    expiresInDays > MAX_SHARE_TTL_DAYS
+  ) {
+    throw invalid(
+      'expiresInDays',
+      `expiresInDays must be a whole number of days between 1 and ${MAX_SHARE_TTL_DAYS}`
+    );
+  }
+
+  return { taskId, includeSelfie, expiresInDays };
+}
+
+export function getShareUrl(id: string) {
+  return toPublicUrl(`/r/${id}`);
+}
+
+/**
+ * Address of the selfie of a share, which only answers while the share is active
+ */
+export function getShareSelfieUrl(id: string) {
+  return toPublicUrl(`/r/${id}/selfie`);
+}
+
+export function toPublicShare(share: ShareRecord): PublicShare {
+  return {
+    id: share.id,
+    url: getShareUrl(share.id),
+    taskId: share.taskId,
+    hairstyle: share.hairstyle,
+    includesSelfie: share.selfie !== undefined,
+    createdAt: share.createdAt,
+    expiresAt: share.expiresAt,
+    revokedAt: share.revokedAt,
+  };
+}
+
+async function hasInputImage({ sha256, mimeType }: ShareSelfie) {
+  return fs.access(getInputImagePath(sha256, mimeType)).then(
+    () => true,
+    () => false
+  );
+}
+
+/**
+ * The selfie of a share, or null if it has none or the input image is gone. Check that
+ * the share is active first, see `getActiveShare`.
+ */
+export async function readShareSelfie({ selfie }: ShareRecord) {
+  if (!selfie) return null;
+
+  try {
+    const data = await fs.readFile(getInputImagePath(selfie.sha256, selfie.mimeType));
+    return { data, contentType: selfie.mimeType };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a share link for a task the caller can see. Only succeeded tasks can be
+ * shared, and the selfie is only published when the request asks for it.
+ */
+export async function createShare(
+  principal: Principal,
+  { taskId, includeSelfie, expiresInDays }: ShareRequest
+): Promise<ShareRecord> {
+  const task = await assertTaskAccess(principal, taskId);
+  const resultUrl = task?.output?.[0];
+
+  if (task?.status !== 'SUCCEEDED' || !resultUrl) {
+    throw invalid('taskId', 'Only tasks that succeeded can be shared');
+  }
+  const selfie = includeSelfie ? task.inputImage : undefined;
+  if (includeSelfie && !(selfie && (await hasInputImage(selfie)))) {
+    throw invalid('includeSelfie', 'The selfie of this task is no longer available');
+  }
+
+  const now = Date.now();
+  const share: ShareRecord = {
+    // 144 random bits, so share links cannot be guessed or enumerated
+    id: randomBytes(18).toString('base64url'),
+    taskId,
+    owner: principal.id,
+    hairstyle: task.hairstyle,
+    resultUrl,
+    selfie: selfie && { sha256: selfie.sha256, mimeType: selfie.mimeType },
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + expiresInDays * DAY_MS).toISOString(),
+  };
+
+  await getShareStore().create(share);
+  return share;
+}
+
+/**
+ * Revoke a share of the caller. The share page and its selfie stop working at once.
+ */
+export async function revokeShare(principal: Principal, id: string): Promise<ShareRecord> {
+  const store = getShareStore();
+  const share = await store.get(id);
+
+  if (!share || !canAccess(principal, share.owner)) {
+    throw shareNotFound();
+  }
+  if (share.revokedAt) return share;
+
+  return (await store.update(id, { revokedAt: new Date().toISOString() })) ?? share;
+}
+
+/**
+ * A share that may still be shown, or null if it is unknown, revoked or expired
+ */
+export async function getActiveShare(id: string): Promise<ShareRecord | null> {
+  const share = await getShareStore().get(id);
+  if (!share || share.revokedAt || Date.parse(share.expiresAt) <= Date.now()) return null;
+  return share;
+}
@@ -0,0 +1,243 @@
+import { ApiError } from '@/lib/api-errors';
+import { canAccess, type Principal } from '@/lib/auth';
+import { readNumberEnv } from '@/lib/env';
+import { ErrorCode } from '@/lib/error-codes';
+import { isTerminalStatus, type CreateTaskInput, type GenerationTask } from '@/lib/providers';
+import { cacheResult } from '@/lib/result-cache';
+import { storeResults } from '@/lib/result-images';
+import type { CachedResult } from '@/lib/result-cache-store';
+import {
+  getTaskStore,
+  type TaskFaceAnalysis,
+  type TaskInputImage,
+  type TaskRecord,
+} from '@/lib/task-store';
+import { recordCachedUsage, settleUsage } from '@/lib/usage';
+import { createHash, randomUUID } from 'crypto';
+import { setTimeout as sleep } from 'timers/promises';
+
+// How long a caller waits for another one to finish copying the outputs of a task
+const STORED_OUTPUT_WAIT_MS = readNumberEnv('RESULT_FETCH_TIMEOUT_MS', 30000);
+const STORED_OUTPUT_POLL_MS = 250;
+
+/**
+ * Hash the images and prompt of a generation request
+ */
+export function hashInputs({ promptText, referenceImages }: CreateTaskInput) {
+  const hash = createHash('sha256').update(promptText);
+  referenceImages.forEach(image => hash.update('\0').update(image.uri));
+  return hash.digest('hex');
+}
+
+/**
+ * What a task was created for, beyond the provider input itself
+ */
+export type TaskContext = {
+  hairstyle: string | null;
+  inputImage?: TaskInputImage;
+  faceAnalysis?: TaskFaceAnalysis;
+  batchId?: string;
+  owner?: string;
+};
+
+/**
+ * Remember a task that was just submitted to the provider.
+ * Store failures are logged rather than thrown: the task already exists upstream.
+ */
+export async function recordCreatedTask(
+  taskId: string,
+  provider: string,
+  input: CreateTaskInput,
+  { hairstyle, inputImage, faceAnalysis, batchId, owner }: TaskContext
+) {
+  const now = new Date().toISOString();
+
+  try {
+    await getTaskStore().create({
+      id: taskId,
+      provider,
+      status: 'PENDING',
+      inputsHash: hashInputs(input),
+      hairstyle,
+      batchId,
+      owner,
+      promptText: input.promptText,
+      model: input.model,
+      ratio: input.ratio,
+      inputImage,
+      faceAnalysis,
+      createdAt: now,
+      updatedAt: now,
+    });
+  } catch (error) {
+    console.error(`Failed to record task ${taskId}:`, error);
+  }
+}
+
+/**
+ * Answer a request from the result cache: record a task that succeeded at once with
+ * the cached output, without submitting anything to the provider or charging credits
+ */
+export async function recordCachedTask(
+  cached: CachedResult,
+  input: CreateTaskInput,
+  { hairstyle, inputImage, faceAnalysis, owner }: TaskContext
+): Promise<GenerationTask> {
+  const id = `cache-${randomUUID()}`;
+  const now = new Date().toISOString();
+
+  try {
+    await getTaskStore().create({
+      id,
+      provider: 'cache',
+      status: 'SUCCEEDED',
+      inputsHash: hashInputs(input),
+      hairstyle,
+      owner,
+      cachedFrom: cached.taskId,
+      promptText: input.promptText,
+      model: input.model,
+      ratio: input.ratio,
+      inputImage,
+      faceAnalysis,
+      output: cached.output,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: now,
+    });
+  } catch (error) {
+    console.error(`Failed to record task ${id}:`, error);
+  }
+  await recordCachedUsage(id, input, { caller: owner ?? 'anonymous', hairstyle });
+
+  return { id, status: 'SUCCEEDED', createdAt: now, output: cached.output };
+}
+
+/**
+ * Make sure the caller may see or act on a task, returning its record if there is one.
+ * Tasks of other callers are reported as missing so their IDs cannot be probed.
+ */
+export async function assertTaskAccess(principal: Principal, taskId: string) {
+  const record = await getTaskStore().get(taskId);
+
+  if (!canAccess(principal, record?.owner)) {
+    throw new ApiError(404, ErrorCode.TASK_NOT_FOUND, 'Task not found or already processed.');
+  }
+  return record;
+}
+
+/**
+ * The provider's view of a task answered from the result cache
+ */
+export function toCachedTask(record: TaskRecord): GenerationTask {
+  return {
+    id: record.id,
+    status: record.status,
+    createdAt: record.createdAt,
+    output: record.output,
+  };
+}
+
+/**
+ * Bring the stored record in line with the latest snapshot from the provider.
+ * The outputs of a task that succeeds are copied into result storage, and the snapshot
+ * is returned with their stable URLs instead of the provider's. Several callers follow
+ * the same task, so only the one that records the terminal status stores the outputs,
+ * settles the usage and caches the result; the others wait for the stored outputs.
+ */
+export async function syncTaskRecord(task: GenerationTask): Promise<GenerationTask> {
+  try {
+    const store = getTaskStore();
+    const record = await store.get(task.id);
+    if (!record) return task;
+    // Nothing changes once a task has finished
+    if (record.completedAt) return await withStoredOutput(task, record);
+    if (!hasChanged(record, task)) return task;
+
+    const now = new Date().toISOString();
+    const update = {
+      status: task.status,
+      progress: task.progress,
+      failure: task.failure,
+      failureCode: task.failureCode,
+      updatedAt: now,
+    };
+
+    if (!isTerminalStatus(task.status)) {
+      await store.update(task.id, { ...update, output: task.output });
+      return task;
+    }
+
+    // Only the stored copies of the outputs are recorded, never the provider's URLs
+    const completed = await store.complete(task.id, { ...update, completedAt: now });
+    if (!completed) {
+      // Another caller recorded the terminal status first
+      const latest = await store.get(task.id);
+      return latest ? await withStoredOutput(task, latest) : task;
+    }
+
+    let output = task.output;
+    if (task.status === 'SUCCEEDED' && task.output) {
+      output = await storeResults(task.output);
+      await store.update(task.id, { output });
+    }
+
+    await settleUsage(task.id, task.status, task.failureCode);
+    if (task.status === 'SUCCEEDED' && output) {
+      await cacheResult(record, output);
+    }
+    return { ...task, output };
+  } catch (error) {
+    console.error(`Failed to update task ${task.id}:`, error);
+    return task;
+  }
+}
+
+/**
+ * Record that a task was cancelled, unless it had already finished
+ */
+export async function markTaskCancelled(taskId: string) {
+  try {
+    const now = new Date().toISOString();
+    const completed = await getTaskStore().complete(taskId, {
+      status: 'CANCELLED',
+      updatedAt: now,
+      completedAt: now,
+    });
+    if (completed) await settleUsage(taskId, 'CANCELLED');
+  } catch (error) {
+    console.error(`Failed to update task ${taskId}:`, error);
+  }
+}
+
+/**
+ * A finished task with the outputs stored for it. The caller that completed the task
+ * stores them after recording the terminal status, so wait for them rather than hand
+ * out the provider's expiring URLs. Should they never appear, e.g. because that caller
+ * stopped, store them here: result storage is keyed by content, so the URLs match.
+ */
+async function withStoredOutput(task: GenerationTask, record: TaskRecord) {
+  if (task.status !== 'SUCCEEDED' || record.status !== 'SUCCEEDED' || !task.output) return task;
+
+  const store = getTaskStore();
+  const deadline = Date.now() + STORED_OUTPUT_WAIT_MS;
+  let latest: TaskRecord | null = record;
+  while (latest && !latest.output && Date.now() < deadline) {
+    await sleep(STORED_OUTPUT_POLL_MS);
+    latest = await store.get(task.id);
+  }
+  if (latest?.output) return { ...task, output: latest.output };
+
+  const output = await storeResults(task.output);
+  await store.update(task.id, { output });
+  return { ...task, output };
+}
+
+function hasChanged(record: TaskRecord, task: GenerationTask) {
+  return (
+    record.status !== task.status ||
+    record.progress !== task.progress ||
+    record.failure !== task.failure ||
+    (record.output?.length ?? 0) !== (task.output?.length ?? 0)
+  );
+}
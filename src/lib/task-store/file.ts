@@ -0,0 +1,52 @@
+import { createJsonFile } from '@/lib/json-file';
+import { queryTasks } from './query';
+import type { TaskRecord, TaskStore } from './types';
+
+type TaskFileData = {
+  tasks: Record<string, TaskRecord>;
+};
+
+/**
+ * Task store persisted to a JSON file, so records survive restarts
+ */
+export function createFileTaskStore(filePath: string): TaskStore {
+  const file = createJsonFile<TaskFileData>(filePath, () => ({ tasks: {} }));
+
+  return {
+    async create(record) {
+      await file.update(data => {
+        data.tasks[record.id] = record;
+      });
+    },
+
+    async get(id) {
+      const { tasks } = await file.read();
+      return tasks[id] ? { ...tasks[id] } : null;
+    },
+
+    update(id, patch) {
+      return file.update(data => {
+        const record = data.tasks[id];
+        if (!record) return null;
+
+        data.tasks[id] = { ...record, ...patch };
+        return { ...data.tasks[id] };
+      });
+    },
+
+    complete(id, patch) {
+      return file.update(data => {
+        const record = data.tasks[id];
+        if (!record || record.completedAt) return null;
+
+        data.tasks[id] = { ...record, ...patch };
+        return { ...data.tasks[id] };
+      });
+    },
+
+    async list(filter, pagination) {
+      const { tasks } = await file.read();
+      return queryTasks(Object.values(tasks), filter, pagination);
+    },
+  };
+}
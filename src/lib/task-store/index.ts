@@ -0,0 +1,32 @@
+import { getDataDir } from '@/lib/json-file';
+import path from 'path';
+import { createFileTaskStore } from './file';
+import { createMemoryTaskStore } from './memory';
+import type { TaskStore } from './types';
+
+export * from './types';
+
+// Keep the store on globalThis so it survives module reloads in development
+const globalForStore = globalThis as unknown as { taskStore?: TaskStore };
+
+/**
+ * Task store selected by `TASK_STORE` ("memory" or "file", the default).
+ * The file store writes to `TASK_STORE_PATH`, or `tasks.json` in the data directory.
+ */
+export function getTaskStore(): TaskStore {
+  if (!globalForStore.taskStore) {
+    const kind = (process.env.TASK_STORE || 'file').toLowerCase();
+
+    if (kind === 'memory') {
+      globalForStore.taskStore = createMemoryTaskStore();
+    } else if (kind === 'file') {
+      globalForStore.taskStore = createFileTaskStore(
+        process.env.TASK_STORE_PATH || path.join(getDataDir(), 'tasks.json')
+      );
+    } else {
+      throw new Error(`Unknown TASK_STORE "${kind}", expected "memory" or "file"`);
+    }
+  }
+
+  return globalForStore.taskStore;
+}
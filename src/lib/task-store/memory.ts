@@ -0,0 +1,42 @@
+import { queryTasks } from './query';
+import type { TaskRecord, TaskStore } from './types';
+
+/**
+ * Task store kept in process memory. Records are lost on restart.
+ */
+export function createMemoryTaskStore(): TaskStore {
+  const records = new Map<string, TaskRecord>();
+
+  return {
+    async create(record) {
+      records.set(record.id, { ...record });
+    },
+
+    async get(id) {
+      const record = records.get(id);
+      return record ? { ...record } : null;
+    },
+
+    async update(id, patch) {
+      const record = records.get(id);
+      if (!record) return null;
+
+      const updated = { ...record, ...patch };
+      records.set(id, updated);
+      return { ...updated };
+    },
+
+    async complete(id, patch) {
+      const record = records.get(id);
+      if (!record || record.completedAt) return null;
+
+      const updated = { ...record, ...patch };
+      records.set(id, updated);
+      return { ...updated };
+    },
+
+    async list(filter, pagination) {
+      return queryTasks(records.values(), filter, pagination);
+    },
+  };
+}
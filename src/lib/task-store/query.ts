@@ -0,0 +1,29 @@
+import type { Pagination, TaskFilter, TaskPage, TaskRecord } from './types';
+
+function matchesFilter(record: TaskRecord, filter: TaskFilter) {
+  if (filter.status && !filter.status.includes(record.status)) return false;
+  if (filter.hairstyle && record.hairstyle !== filter.hairstyle) return false;
+  if (filter.batchId && record.batchId !== filter.batchId) return false;
+  if (filter.owner && record.owner !== filter.owner) return false;
+  if (filter.createdAfter && record.createdAt < filter.createdAfter) return false;
+  if (filter.createdBefore && record.createdAt >= filter.createdBefore) return false;
+  return true;
+}
+
+/**
+ * Filter, sort (newest first) and paginate records. Shared by the store implementations.
+ */
+export function queryTasks(
+  records: Iterable<TaskRecord>,
+  filter: TaskFilter,
+  { limit, offset }: Pagination
+): TaskPage {
+  const matches = Array.from(records)
+    .filter(record => matchesFilter(record, filter))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return {
+    tasks: matches.slice(offset, offset + limit),
+    total: matches.length,
+  };
+}
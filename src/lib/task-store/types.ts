@@ -0,0 +1,92 @@
+import type { FaceShape } from '@/lib/face-geometry';
+import type { ImageFit } from '@/lib/image-normalize';
+import type { TaskStatus } from '@/lib/providers';
+
+/**
+ * The selfie as it was submitted after preprocessing, and the settings that produced it
+ */
+export type TaskInputImage = {
+  sha256: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  fit: ImageFit;
+  maxEdge: number;
+};
+
+/**
+ * The face shape the app found in the selfie and the ruleset that decided it, so results
+ * can be compared across ruleset variants
+ */
+export type TaskFaceAnalysis = {
+  faceShape: FaceShape;
+  rulesetVariant: string;
+  rulesetVersion: string;
+};
+
+/**
+ * Everything we remember about a generation task
+ */
+export type TaskRecord = {
+  id: string;
+  provider: string;
+  status: TaskStatus;
+  // SHA-256 of the submitted images and prompt, so identical requests can be recognised
+  inputsHash: string;
+  hairstyle: string | null;
+  // Set for tasks submitted as part of a batch
+  batchId?: string;
+  // Caller that created the task, see `Principal.id`
+  owner?: string;
+  // Set for tasks answered from the result cache: the task whose output was reused
+  cachedFrom?: string;
+  promptText: string;
+  model: string;
+  ratio: string;
+  inputImage?: TaskInputImage;
+  faceAnalysis?: TaskFaceAnalysis;
+  progress?: number;
+  output?: string[];
+  failure?: string;
+  failureCode?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+};
+
+export type TaskFilter = {
+  status?: TaskStatus[];
+  hairstyle?: string;
+  batchId?: string;
+  owner?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+};
+
+export type Pagination = {
+  limit: number;
+  offset: number;
+};
+
+export type TaskPage = {
+  tasks: TaskRecord[];
+  total: number;
+};
+
+export type TaskStore = {
+  create(record: TaskRecord): Promise<void>;
+  get(id: string): Promise<TaskRecord | null>;
+  /** Merge a patch into an existing record, returning the updated record or null if unknown */
+  update(id: string, patch: Partial<Omit<TaskRecord, 'id'>>): Promise<TaskRecord | null>;
+  /**
+   * Move a task to a terminal status: merge a patch that sets `completedAt`, but only if
+   * the task has not completed yet. Returns the updated record, or null if unknown or
+   * already completed, so exactly one caller wins the transition.
+   */
+  complete(
+    id: string,
+    patch: Partial<Omit<TaskRecord, 'id'>> & { completedAt: string }
+  ): Promise<TaskRecord | null>;
+  /** List matching records, newest first */
+  list(filter: TaskFilter, pagination: Pagination): Promise<TaskPage>;
+};
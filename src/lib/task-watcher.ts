@@ -0,0 +1,123 @@
+import { toApiError, toErrorBody } from '@/lib/api-errors';
+import type { ApiErrorBody } from '@/lib/error-codes';
+import { readNumberEnv } from '@/lib/env';
+import { isTerminalStatus, type GenerationProvider, type GenerationTask } from '@/lib/providers';
+import { syncTaskRecord } from '@/lib/task-records';
+
+export type TaskEvent =
+  | { type: 'status'; data: Omit<GenerationTask, 'output'> }
+  | { type: 'output'; data: { output: string[] } }
+  | { type: 'api_error'; data: ApiErrorBody };
+
+type StatusEvent = Extract<TaskEvent, { type: 'status' }>;
+
+export type TaskSubscriber = {
+  send(event: TaskEvent): void;
+  close(): void;
+};
+
+type Watcher = {
+  subscribers: Set<TaskSubscriber>;
+  // Events replayed to late subscribers so they start from the current state
+  lastStatus: StatusEvent | null;
+  timer: ReturnType<typeof setTimeout> | null;
+};
+
+const POLL_INTERVAL_MS = readNumberEnv('TASK_EVENTS_POLL_INTERVAL_MS', 2000);
+
+// Keep watchers on globalThis so they survive module reloads in development
+const globalForWatchers = globalThis as unknown as { taskWatchers?: Map<string, Watcher> };
+const watchers = (globalForWatchers.taskWatchers ??= new Map<string, Watcher>());
+
+/**
+ * Subscribe to the progress of a task.
+ *
+ * Every subscriber of the same task shares a single upstream poller, which
+ * runs while at least one subscriber is connected and stops once the task
+ * reaches a terminal state. Returns a function that unsubscribes.
+ */
+export function watchTask(
+  taskId: string,
+  provider: GenerationProvider,
+  subscriber: TaskSubscriber
+): () => void {
+  let watcher = watchers.get(taskId);
+
+  if (!watcher) {
+    watcher = { subscribers: new Set(), lastStatus: null, timer: null };
+    watchers.set(taskId, watcher);
+    poll(taskId, provider, watcher);
+  } else if (watcher.lastStatus) {
+    subscriber.send(watcher.lastStatus);
+  }
+
+  watcher.subscribers.add(subscriber);
+
+  return () => {
+    const current = watchers.get(taskId);
+    if (!current) return;
+
+    current.subscribers.delete(subscriber);
+    if (current.subscribers.size === 0) {
+      stop(taskId, current);
+    }
+  };
+}
+
+function broadcast(watcher: Watcher, event: TaskEvent) {
+  watcher.subscribers.forEach(subscriber => subscriber.send(event));
+}
+
+function stop(taskId: string, watcher: Watcher) {
+  if (watcher.timer) {
+    clearTimeout(watcher.timer);
+  }
+  watchers.delete(taskId);
+  watcher.subscribers.forEach(subscriber => subscriber.close());
+  watcher.subscribers.clear();
+}
+
+async function poll(taskId: string, provider: GenerationProvider, watcher: Watcher) {
+  // The watcher was stopped while a request was in flight
+  if (watchers.get(taskId) !== watcher) return;
+
+  let nextPollMs = POLL_INTERVAL_MS;
+
+  try {
+    const snapshot = await syncTaskRecord(await provider.getTask(taskId));
+    if (watchers.get(taskId) !== watcher) return;
+
+    const { output, ...task } = snapshot;
+    const statusEvent: StatusEvent = { type: 'status', data: task };
+    const previous = watcher.lastStatus?.data;
+
+    if (previous?.status !== task.status || previous?.progress !== task.progress) {
+      watcher.lastStatus = statusEvent;
+      broadcast(watcher, statusEvent);
+    }
+
+    if (isTerminalStatus(task.status)) {
+      if (task.status === 'SUCCEEDED') {
+        broadcast(watcher, { type: 'output', data: { output: output ?? [] } });
+      }
+      stop(taskId, watcher);
+      return;
+    }
+  } catch (error) {
+    if (watchers.get(taskId) !== watcher) return;
+
+    const apiError = toApiError(error);
+    const { retryAfterMs } = apiError;
+    broadcast(watcher, { type: 'api_error', data: toErrorBody(apiError) });
+
+    // Keep polling through transient upstream trouble, give up on anything else
+    if (retryAfterMs === undefined) {
+      console.error(`Error watching task ${taskId}:`, error);
+      stop(taskId, watcher);
+      return;
+    }
+    nextPollMs = Math.max(nextPollMs, retryAfterMs);
+  }
+
+  watcher.timer = setTimeout(() => poll(taskId, provider, watcher), nextPollMs);
+}
@@ -0,0 +1,37 @@
+import { createJsonFile } from '@/lib/json-file';
+import { queryUsage } from './query';
+import type { UsageRecord, UsageStore } from './types';
+
+type UsageFileData = {
+  records: Record<string, UsageRecord>;
+};
+
+/**
+ * Usage store persisted to a JSON file, so the usage history survives restarts
+ */
+export function createFileUsageStore(filePath: string): UsageStore {
+  const file = createJsonFile<UsageFileData>(filePath, () => ({ records: {} }));
+
+  return {
+    async create(record) {
+      await file.update(data => {
+        data.records[record.id] = { ...record };
+      });
+    },
+
+    async settleByTaskId(taskId, patch) {
+      return file.update(data => {
+        const record = Object.values(data.records).find(entry => entry.taskId === taskId);
+        if (!record || record.outcome !== 'SUBMITTED') return null;
+
+        Object.assign(record, patch);
+        return { ...record };
+      });
+    },
+
+    async list(filter) {
+      const { records } = await file.read();
+      return queryUsage(Object.values(records), filter).map(record => ({ ...record }));
+    },
+  };
+}
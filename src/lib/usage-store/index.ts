@@ -0,0 +1,27 @@
+import { getDataDir } from '@/lib/json-file';
+import path from 'path';
+import { createFileUsageStore } from './file';
+import { createMemoryUsageStore } from './memory';
+import type { UsageStore } from './types';
+
+export * from './types';
+
+// Keep the store on globalThis so it survives module reloads in development
+const globalForStore = globalThis as unknown as { usageStore?: UsageStore };
+
+/**
+ * Usage store, kept alongside the task registry: in memory when `TASK_STORE=memory`,
+ * otherwise in `usage.json` in the data directory
+ */
+export function getUsageStore(): UsageStore {
+  if (!globalForStore.usageStore) {
+    const kind = (process.env.TASK_STORE || 'file').toLowerCase();
+
+    globalForStore.usageStore =
+      kind === 'memory'
+        ? createMemoryUsageStore()
+        : createFileUsageStore(path.join(getDataDir(), 'usage.json'));
+  }
+
+  return globalForStore.usageStore;
+}
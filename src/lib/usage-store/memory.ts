@@ -0,0 +1,27 @@
+import { queryUsage } from './query';
+import type { UsageRecord, UsageStore } from './types';
+
+/**
+ * Usage store kept in process memory. Records are lost on restart.
+ */
+export function createMemoryUsageStore(): UsageStore {
+  const records = new Map<string, UsageRecord>();
+
+  return {
+    async create(record) {
+      records.set(record.id, { ...record });
+    },
+
+    async settleByTaskId(taskId, patch) {
+      const record = Array.from(records.values()).find(entry => entry.taskId === taskId);
+      if (!record || record.outcome !== 'SUBMITTED') return null;
+
+      Object.assign(record, patch);
+      return { ...record };
+    },
+
+    async list(filter) {
+      return queryUsage(records.values(), filter).map(record => ({ ...record }));
+    },
+  };
+}
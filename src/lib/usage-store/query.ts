@@ -0,0 +1,14 @@
+import type { UsageFilter, UsageRecord } from './types';
+
+/**
+ * Filter records by creation time and sort them oldest first. Shared by the store implementations.
+ */
+export function queryUsage(records: Iterable<UsageRecord>, filter: UsageFilter) {
+  return Array.from(records)
+    .filter(
+      record =>
+        (!filter.createdAfter || record.createdAt >= filter.createdAfter) &&
+        (!filter.createdBefore || record.createdAt < filter.createdBefore)
+    )
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
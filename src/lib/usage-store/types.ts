@@ -0,0 +1,53 @@
+/**
+ * What became of a task submission. Submitted tasks move on to a terminal outcome
+ * once their task finishes; rejected ones never reached the provider's queue and
+ * cached ones were answered from the result cache without reaching the provider.
+ */
+export type UsageOutcome =
+  | 'SUBMITTED'
+  | 'REJECTED'
+  | 'CACHED'
+  | 'SUCCEEDED'
+  | 'FAILED'
+  | 'CANCELLED';
+
+/**
+ * One attempt to create a generation task, with its estimated cost
+ */
+export type UsageRecord = {
+  id: string;
+  // Set once the provider accepted the task
+  taskId?: string;
+  provider: string;
+  model: string;
+  ratio: string;
+  // Caller that asked for the generation, see `Principal.id`
+  caller: string;
+  hairstyle: string | null;
+  batchId?: string;
+  outcome: UsageOutcome;
+  // Estimated credits spent, zero for submissions that were not charged
+  credits: number;
+  failureCode?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type UsageFilter = {
+  createdAfter?: string;
+  createdBefore?: string;
+};
+
+export type UsageStore = {
+  create(record: UsageRecord): Promise<void>;
+  /**
+   * Merge a patch into the record for a task while it is still `SUBMITTED`, returning the
+   * updated record, or null if unknown or already settled
+   */
+  settleByTaskId(
+    taskId: string,
+    patch: Partial<Omit<UsageRecord, 'id' | 'taskId'>>
+  ): Promise<UsageRecord | null>;
+  /** Matching records, oldest first */
+  list(filter: UsageFilter): Promise<UsageRecord[]>;
+};
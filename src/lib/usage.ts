@@ -0,0 +1,224 @@
+import { ApiError, toApiError } from '@/lib/api-errors';
+import { getCounterStore } from '@/lib/counter-store';
+import { readNumberEnv } from '@/lib/env';
+import { ErrorCode } from '@/lib/error-codes';
+import { getPeriodEnd, getPeriodStart, isPeriod, type Period } from '@/lib/periods';
+import type { CreatedTask, CreateTaskInput, GenerationProvider, TaskStatus } from '@/lib/providers';
+import { getUsageStore, type UsageRecord } from '@/lib/usage-store';
+import { randomUUID } from 'crypto';
+
+// Estimated Runway credits per image by model, at standard and 1080p resolution
+const MODEL_CREDITS: Record<string, { standard: number; hd: number }> = {
+  gen4_image: { standard: 5, hd: 8 },
+  gen4_image_turbo: { standard: 2, hd: 2 },
+};
+const MAX_MODEL_CREDITS = Math.max(...Object.values(MODEL_CREDITS).map(cost => cost.hd));
+// Shorter side from which an output ratio is billed as 1080p
+const HD_MIN_SIDE = 1080;
+
+// Credits that may be spent per budget period. Zero means no ceiling.
+const CREDIT_BUDGET = readNumberEnv('CREDIT_BUDGET', 0);
+const CREDIT_BUDGET_PERIOD: Period = isPeriod(process.env.CREDIT_BUDGET_PERIOD)
+  ? process.env.CREDIT_BUDGET_PERIOD
+  : 'monthly';
+
+/**
+ * Who a task is generated for, beyond the provider input itself
+ */
+export type UsageContext = {
+  caller: string;
+  hairstyle: string | null;
+  batchId?: string;
+};
+
+export type BudgetState = {
+  period: Period;
+  limit: number;
+  spent: number;
+  remaining: number;
+  resetAt: string;
+};
+
+/**
+ * Estimated credit cost of one generation. Unknown models are assumed to cost
+ * as much as the most expensive known one.
+ */
+export function estimateCredits(model: string, ratio: string) {
+  const costs = MODEL_CREDITS[model];
+  if (!costs) return MAX_MODEL_CREDITS;
+
+  const [width, height] = ratio.split(':').map(Number);
+  return Math.min(width, height) >= HD_MIN_SIDE ? costs.hd : costs.standard;
+}
+
+function getBudgetKey(time: number) {
+  const start = new Date(getPeriodStart(CREDIT_BUDGET_PERIOD, time)).toISOString();
+  return `budget:${CREDIT_BUDGET_PERIOD}:${start}`;
+}
+
+function budgetExhausted(now: number) {
+  return new ApiError(
+    503,
+    ErrorCode.BUDGET_EXHAUSTED,
+    'The generation budget has been used up. Please try again later.',
+    { resetAt: new Date(getPeriodEnd(CREDIT_BUDGET_PERIOD, now)).toISOString() }
+  );
+}
+
+/**
+ * Credits spent in the current budget period, or null when there is no ceiling
+ */
+export async function getBudgetState(): Promise<BudgetState | null> {
+  if (CREDIT_BUDGET <= 0) return null;
+
+  const now = Date.now();
+  const spent = await getCounterStore().update(getBudgetKey(now), counter => ({
+    result: counter?.value ?? 0,
+  }));
+
+  return {
+    period: CREDIT_BUDGET_PERIOD,
+    limit: CREDIT_BUDGET,
+    spent,
+    remaining: Math.max(0, CREDIT_BUDGET - spent),
+    resetAt: new Date(getPeriodEnd(CREDIT_BUDGET_PERIOD, now)).toISOString(),
+  };
+}
+
+/**
+ * Refuse up front work that would not fit in what is left of the budget
+ */
+export async function assertBudgetAvailable(credits: number) {
+  const budget = await getBudgetState();
+  if (budget && credits > budget.remaining) {
+    throw budgetExhausted(Date.now());
+  }
+}
+
+async function reserveCredits(credits: number, now: number) {
+  if (CREDIT_BUDGET <= 0) return;
+
+  const allowed = await getCounterStore().update(getBudgetKey(now), counter => {
+    const spent = counter?.value ?? 0;
+    if (spent + credits > CREDIT_BUDGET) return { result: false };
+
+    return {
+      counter: {
+        value: spent + credits,
+        updatedAt: now,
+        expiresAt: getPeriodEnd(CREDIT_BUDGET_PERIOD, now),
+      },
+      result: true,
+    };
+  });
+
+  if (!allowed) throw budgetExhausted(now);
+}
+
+/**
+ * Give credits back to the budget period they were taken from
+ */
+async function releaseCredits(credits: number, spentAt: number) {
+  if (CREDIT_BUDGET <= 0) return;
+
+  await getCounterStore().update(getBudgetKey(spentAt), counter => ({
+    counter: counter && { ...counter, value: Math.max(0, counter.value - credits) },
+    result: undefined,
+  }));
+}
+
+async function recordUsage(record: UsageRecord) {
+  try {
+    await getUsageStore().create(record);
+  } catch (error) {
+    console.error('Failed to record usage:', error);
+  }
+}
+
+/**
+ * Submit a task to the provider and meter it. The estimated cost is taken from the
+ * budget first, so nothing is submitted once the budget is exhausted.
+ */
+export async function createMeteredTask(
+  provider: GenerationProvider,
+  input: CreateTaskInput,
+  context: UsageContext
+): Promise<CreatedTask> {
+  const credits = estimateCredits(input.model, input.ratio);
+  const now = Date.now();
+  await reserveCredits(credits, now);
+
+  const createdAt = new Date(now).toISOString();
+  const usage = {
+    provider: provider.name,
+    model: input.model,
+    ratio: input.ratio,
+    ...context,
+    createdAt,
+    updatedAt: createdAt,
+  };
+
+  try {
+    const task = await provider.createTask(input);
+    await recordUsage({ ...usage, id: task.id, taskId: task.id, outcome: 'SUBMITTED', credits });
+    return task;
+  } catch (error) {
+    await releaseCredits(credits, now);
+    await recordUsage({
+      ...usage,
+      id: randomUUID(),
+      outcome: 'REJECTED',
+      credits: 0,
+      failureCode: toApiError(error).code,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Record a generation answered from the result cache, which costs nothing
+ */
+export async function recordCachedUsage(
+  taskId: string,
+  input: CreateTaskInput,
+  context: UsageContext
+) {
+  const createdAt = new Date().toISOString();
+  await recordUsage({
+    id: taskId,
+    taskId,
+    provider: 'cache',
+    model: input.model,
+    ratio: input.ratio,
+    ...context,
+    outcome: 'CACHED',
+    credits: 0,
+    createdAt,
+    updatedAt: createdAt,
+  });
+}
+
+/**
+ * Record how a metered task ended. Failed generations are not charged, so their
+ * credits go back to the budget. Only the first call for a task has any effect, so
+ * credits are never released twice.
+ */
+export async function settleUsage(taskId: string, status: TaskStatus, failureCode?: string) {
+  try {
+    const record = await getUsageStore().settleByTaskId(taskId, {
+      outcome: status as UsageRecord['outcome'],
+      failureCode,
+      updatedAt: new Date().toISOString(),
+      ...(status === 'FAILED' && { credits: 0 }),
+    });
+
+    if (record && status === 'FAILED') {
+      await releaseCredits(
+        estimateCredits(record.model, record.ratio),
+        Date.parse(record.createdAt)
+      );
+    }
+  } catch (error) {
+    console.error(`Failed to settle usage of task ${taskId}:`, error);
+  }
+}
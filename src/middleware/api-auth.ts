@@ -1,26 +1,37 @@
+import { errorResponse } from '@/lib/api-errors';
+import { authenticate, requireScope, type Principal } from '@/lib/auth';
+import type { Scope } from '@/lib/scopes';
 import { NextRequest, NextResponse } from 'next/server';
 
-type RouteHandler<T = unknown> = (
+export type RouteHandler<T = unknown> = (
   req: NextRequest,
   context: T,
-  apiKey: string
+  principal: Principal
 ) => Promise<NextResponse>;
 
+/**
+ * Authenticate the caller, check it holds `scope`, then run the handler with the
+ * caller's identity. Handlers that submit or follow tasks resolve the provider
+ * themselves with `getGenerationProvider`, so the other routes work without one.
+ */
 export function withApiAuth<T>(
-  handler: RouteHandler<T>
+  handler: RouteHandler<T>,
+  scope: Scope
 ): (req: NextRequest, context: T) => Promise<NextResponse> {
   return async function (req: NextRequest, context: T): Promise<NextResponse> {
-    // Get API key from environment variable
-    const apiKey = process.env.RUNWAY_API_KEY;
+    let principal: Principal;
 
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'RUNWAY_API_KEY environment variable is not set' },
-        { status: 500 }
-      );
+    try {
+      principal = await authenticate(req);
+      requireScope(principal, scope);
+    } catch (error) {
+      const response = errorResponse(error);
+      if (response.status === 401) {
+        response.headers.set('WWW-Authenticate', 'Bearer');
+      }
+      return response;
     }
 
-    // Pass the API key from environment variable to the handler
-    return handler(req, context, apiKey);
+    return handler(req, context, principal);
   };
 }
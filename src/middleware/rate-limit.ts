@@ -0,0 +1,31 @@
+import { errorResponse } from '@/lib/api-errors';
+import { checkQuota, setRateLimitHeaders, takeRateLimitToken } from '@/lib/rate-limit';
+import type { RouteHandler } from '@/middleware/api-auth';
+
+/**
+ * Throttle an authenticated handler per caller and per client IP, and turn callers away
+ * once their generation quota is used up. Compose inside `withApiAuth`:
+ *
+ *   withApiAuth(withRateLimit(handler, 'generate'), 'generate')
+ *
+ * `bucket` names the token bucket, so routes can be limited independently. The handler
+ * itself charges the quota with `chargeQuota` once it knows how many generations it runs.
+ */
+export function withRateLimit<T>(handler: RouteHandler<T>, bucket: string): RouteHandler<T> {
+  return async function (req, context, principal) {
+    let states;
+
+    try {
+      states = [
+        ...(await takeRateLimitToken(req, principal, bucket)),
+        ...(await checkQuota(req, principal)),
+      ];
+    } catch (error) {
+      return errorResponse(error);
+    }
+
+    const response = await handler(req, context, principal);
+    setRateLimitHeaders(response.headers, states);
+    return response;
+  };
+}
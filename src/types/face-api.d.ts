@@ -5,6 +5,7 @@ declare module 'face-api.js' {
   }
 
   interface FaceLandmarks {
+    positions: Point[];
     getJawOutline(): Point[];
     getNose(): Point[];
     getLeftEye(): Point[];
@@ -12,7 +13,13 @@ declare module 'face-api.js' {
     getMouth(): Point[];
   }
 
+  interface Box extends Point {
+    width: number;
+    height: number;
+  }
+
   interface WithFaceLandmarks {
+    detection: { box: Box; score: number };
     landmarks: FaceLandmarks;
   }
 
@@ -20,18 +27,44 @@ declare module 'face-api.js' {
     withFaceLandmarks(): Promise<WithFaceLandmarks>;
   }
 
+  interface DetectAllFacesTask {
+    withFaceLandmarks(): Promise<WithFaceLandmarks[]>;
+  }
+
+  interface Tensor3D {
+    dispose(): void;
+  }
+
   interface SsdMobilenetv1 {
     loadFromUri(url: string): Promise<void>;
+    loadFromDisk(path: string): Promise<void>;
   }
 
   interface FaceLandmark68Net {
     loadFromUri(url: string): Promise<void>;
+    loadFromDisk(path: string): Promise<void>;
+  }
+
+  class SsdMobilenetv1Options {
+    constructor(options?: { minConfidence?: number; maxResults?: number });
   }
 
+  const tf: {
+    tensor3d(
+      values: Uint8Array,
+      shape: [number, number, number],
+      dtype?: 'int32' | 'float32'
+    ): Tensor3D;
+  };
+
   const nets: {
     ssdMobilenetv1: SsdMobilenetv1;
     faceLandmark68Net: FaceLandmark68Net;
   };
 
   function detectSingleFace(image: HTMLImageElement): FaceDetection;
-} 
\ No newline at end of file
+  function detectAllFaces(
+    image: HTMLImageElement | Tensor3D,
+    options?: SsdMobilenetv1Options
+  ): DetectAllFacesTask;
+}